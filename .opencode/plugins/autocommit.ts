@@ -3,16 +3,143 @@ import { tool, tool as toolSchema } from "@opencode-ai/plugin"
 import { z } from "zod"
 import * as yaml from "yaml"
 import Bun from "bun"
+import * as path from "node:path"
+import * as fs from "node:fs"
+import {
+  ZMessageFormat,
+  ZMessageSections,
+  buildSummaryPrompt,
+  formatCommitMessage,
+  loadMessageTemplate,
+  normalizeConventionalSummary,
+} from "./autocommit/message-format"
+import { condenseDiff, type StagedDiff } from "./autocommit/diff"
+import {
+  TRAILER_CO_AUTHOR,
+  TRAILER_MODEL,
+  TRAILER_SESSION,
+  TRAILER_TURN,
+  addTrailers,
+  readCommitTrailers,
+} from "./autocommit/trailers"
+import { isPushed, listCommits, listSessionCommits } from "./autocommit/history"
+import {
+  ZBranchPattern,
+  getCurrentBranch,
+  matchesBranchPattern,
+  renderBranchName,
+  sessionSlug,
+  switchToBranch,
+} from "./autocommit/branch"
+import { listCheckpoints, resolveCommit, shadowRef, writeCheckpoint } from "./autocommit/shadow"
+import { createStateStore } from "./autocommit/state"
+import { createRepoLock, type RepoLock } from "./autocommit/lock"
+import {
+  CHECKS_FAILED_MARKER,
+  ZCheckFailurePolicy,
+  checkPassed,
+  markChecksFailed,
+  runChecks,
+  trimOutput,
+  type CheckReport,
+} from "./autocommit/checks"
+import {
+  DEFAULT_DENY_PATHS,
+  ZGuardrailPolicy,
+  listStagedFiles,
+  scanStagedFiles,
+  type GuardrailFinding,
+} from "./autocommit/guardrails"
+import { groupByPath, isIncludedPath } from "./autocommit/paths"
+import { ZPushMode, fetchBranch, isProtectedBranch, pushBranch, replayCommits } from "./autocommit/push"
+import { blameLine, findAutoCommits, readAutoCommit, type BlamedLine } from "./autocommit/query"
+import {
+  ZRedactPattern,
+  ZRedactRegex,
+  buildRedactionRules,
+  redactText,
+  redactValue,
+  type RedactionRule,
+} from "./autocommit/redact"
+import {
+  NOTES_REF,
+  ZTranscriptMode,
+  formatTranscript,
+  getTranscriptEntries,
+  readTranscript,
+  writeTranscript,
+  type TranscriptEntry,
+} from "./autocommit/transcript"
+import {
+  SETTINGS_FILE,
+  WORKTREE_SETTINGS_FILE,
+  globalSettingsPath,
+  ZSettingsScope,
+  mergeLayers,
+  readEnvLayer,
+  readFileLayer,
+  updateSettingsFile,
+  validateLayer,
+  type SettingsLayer,
+  type SettingsSource,
+} from "./autocommit/settings-layers"
 
-const ZAutoCommitMode = z.enum(["disabled", "worktree", "enabled"])
+const ZAutoCommitMode = z.enum(["disabled", "worktree", "enabled", "branch", "shadow"])
+
+const ZStagingMode = z.enum(["turn", "all"])
+
+const ZPreexistingChangesPolicy = z.enum(["include", "exclude", "refuse"])
+
+const ZUndoMode = z.enum(["reset", "soft", "revert"])
+
+const ZNotifyMode = z.enum(["off", "toast", "message"])
+
+// When pending turns are committed: on every idle, once enough turns have piled up, once the oldest
+// pending turn has waited long enough, or only when commitNow is called
+const ZCadence = z.enum(["per-turn", "every-n-turns", "min-interval", "on-demand"])
 
 const ZAutoCommitSettings = z.object({
   mode: ZAutoCommitMode.default("disabled"),
   commitModel: z.string().optional(),
+  commitModelFallbacks: z.array(z.string()).default([]),
+  commitModelTimeout: z.number().min(1000).default(30000),
   maxCommitLength: z.number().min(100).default(10000),
+  staging: ZStagingMode.default("turn"),
+  preexistingChanges: ZPreexistingChangesPolicy.default("exclude"),
+  messageFormat: ZMessageFormat.default("plain"),
+  messageTemplate: z.string().optional(),
+  summaryDiffBudget: z.number().min(0).default(4000),
+  trailers: z.boolean().default(true),
+  coAuthors: z.array(z.string()).default([]),
+  branchPattern: ZBranchPattern.default("opencode/{{slug}}"),
+  guardrailPolicy: ZGuardrailPolicy.default("unstage-offending"),
+  denyPaths: z.array(z.string()).default(DEFAULT_DENY_PATHS),
+  maxFileSize: z.number().min(0).default(10 * 1024 * 1024),
+  secretScan: z.boolean().default(true),
+  checks: z.array(z.string()).default([]),
+  checkTimeout: z.number().min(1000).default(300000),
+  onCheckFailure: ZCheckFailurePolicy.default("skip"),
+  notify: ZNotifyMode.default("toast"),
+  include: z.array(z.string()).default([]),
+  exclude: z.array(z.string()).default([]),
+  pathGroups: z.array(z.string()).default([]),
+  push: ZPushMode.default("never"),
+  pushEvery: z.number().int().min(1).default(5),
+  pushRemote: z.string().min(1).default("origin"),
+  protectedBranches: z.array(z.string()).default(["main", "master"]),
+  transcript: ZTranscriptMode.default("message"),
+  dryRun: z.boolean().default(false),
+  cadence: ZCadence.default("per-turn"),
+  cadenceTurns: z.number().int().min(1).default(5),
+  cadenceMinutes: z.number().positive().default(10),
+  messageSections: ZMessageSections.default("both"),
+  redact: z.array(ZRedactPattern).default([]),
+  redactPatterns: z.array(ZRedactRegex).default([]),
 })
 
 type AutoCommitMode = z.infer<typeof ZAutoCommitMode>
+type StagingMode = z.infer<typeof ZStagingMode>
+type PreexistingChangesPolicy = z.infer<typeof ZPreexistingChangesPolicy>
 type AutoCommitSettings = z.infer<typeof ZAutoCommitSettings>
 
 type OpencodeClient = PluginInput["client"]
@@ -22,81 +149,225 @@ interface LastTurn {
   userMessageID: string
   userPrompt: string
   assistantResponse: string
+  // File paths targeted by file-editing tool calls during the turn, as given to the tools
+  touchedFiles: string[]
+  // "provider/model" that answered the turn
+  model?: string
+  // Everything the assistant said and every tool it called, in order
+  transcript: TranscriptEntry[]
 }
 
-async function loadSettingsFromFile(directory: string, client: OpencodeClient): Promise<Partial<AutoCommitSettings> | null> {
-  try {
-    const settingsPath = `${directory}/.opencode/auto-commit.settings.yml`
-    
-    const file = Bun.file(settingsPath)
-    const content = await file.text()
-    
-    const parsed = yaml.parse(content)
-    const settings = ZAutoCommitSettings.partial().parse(parsed)
-    
-    await client.app.log({
-      body: {
-        service: "opencode-autocommit",
-        level: "info",
-        message: "Loaded settings from file",
-        extra: { settingsPath, settings },
-      },
-    })
-    
-    return settings
-  } catch (error) {
+// Tools whose calls modify the files named in their input
+const FILE_EDIT_TOOLS = new Set(["edit", "write", "multiedit", "patch", "apply_patch"])
+
+interface CommitModelRef {
+  providerID: string
+  modelID: string
+}
+
+interface CommitSummary {
+  summary: string
+  // "provider/model" that produced the summary, undefined when the default model was used
+  model?: string
+}
+
+interface WorkingTreeSnapshot {
+  // Tree object holding every tracked and untracked (non-ignored) file as it was on disk
+  tree: string
+  // Files that differed from HEAD when the snapshot was taken
+  changedFiles: string[]
+}
+
+interface TurnBaseline {
+  // First turn of the batch the snapshot was taken for
+  userMessageID: string
+  snapshot: WorkingTreeSnapshot | null
+}
+
+interface CommitSelection {
+  // Paths committed with their full working-tree content
+  paths: string[]
+  // Files that were already dirty when the turn started; only the turn's patch is committed
+  deltas: { path: string; patch: string }[]
+}
+
+interface StagedChanges {
+  repoRoot: string
+  // Paths to commit, or null to commit everything in the index
+  paths: string[] | null
+  // Temporary index holding the commit; the user's index is only updated once it is made
+  indexFile: string
+}
+
+interface CommitGroup {
+  turns: LastTurn[]
+  // null to commit every change
+  selection: CommitSelection | null
+}
+
+interface CommitPlan {
+  changedFiles: string[]
+  // One commit per group, in order
+  groups: CommitGroup[]
+}
+
+// A commit as it would be made, for dry runs and previews
+interface CommitPreview {
+  userMessageIDs: string[]
+  files: string[]
+  diffstat: string
+  summary: string
+  message: string
+  // Files guardrails flagged: committed anyway under "warn", left out of `files` under "exclude"
+  flagged: GuardrailFinding[]
+}
+
+function defaultSettings(): AutoCommitSettings {
+  return ZAutoCommitSettings.parse({})
+}
+
+interface LoadedSettings {
+  settings: AutoCommitSettings
+  // Layer (or "default") each value came from
+  sources: Record<string, SettingsSource>
+  layers: SettingsLayer<AutoCommitSettings>[]
+  // Problems found while loading, prefixed with the layer they came from
+  errors: string[]
+}
+
+// null outside a git repository, where there is no worktree to override settings for
+async function worktreeSettingsPath($: BunShell): Promise<string | null> {
+  const result = await $`git rev-parse --path-format=absolute --git-path ${WORKTREE_SETTINGS_FILE}`.nothrow().quiet()
+  return result.exitCode === 0 ? result.stdout.toString().trim() : null
+}
+
+async function loadSettings($: BunShell, directory: string, client: OpencodeClient): Promise<LoadedSettings> {
+  const layers: SettingsLayer<AutoCommitSettings>[] = [
+    await readFileLayer(ZAutoCommitSettings, "global", globalSettingsPath()),
+    await readFileLayer(ZAutoCommitSettings, "repo", path.join(directory, SETTINGS_FILE)),
+  ]
+  const worktreePath = await worktreeSettingsPath($)
+  if (worktreePath) {
+    layers.push(await readFileLayer(ZAutoCommitSettings, "worktree", worktreePath))
+  }
+  layers.push(readEnvLayer(ZAutoCommitSettings))
+  
+  const { settings, sources } = mergeLayers(defaultSettings(), layers)
+  const errors = layers.flatMap((layer) => layer.errors.map((error) => `${layer.name} (${layer.location}): ${error}`))
+  
+  for (const layer of layers.filter((l) => l.errors.length > 0)) {
     await client.app.log({
       body: {
         service: "opencode-autocommit",
         level: "error",
-        message: "Failed to load settings file",
-        extra: { error: error instanceof Error ? error.message : String(error) },
+        message: layer.name === "env" ? "Ignored invalid settings from environment" : "Ignored invalid settings from file",
+        extra: { layer: layer.name, location: layer.location, errors: layer.errors },
       },
     })
-    return null
   }
-}
-
-async function generateCommitSummary(
-  turn: LastTurn,
-  settings: AutoCommitSettings,
-  client: OpencodeClient
-): Promise<string> {
+  
+  // The template is checked once the layers are merged, since format and template may come from different layers
+  if (settings.messageFormat === "template") {
+    try {
+      if (!settings.messageTemplate) {
+        throw new Error("messageFormat is template but messageTemplate is not set")
+      }
+      await loadMessageTemplate(directory, settings.messageTemplate)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      errors.push(`${sources.messageFormat}: messageTemplate: ${message}`)
+      settings.messageFormat = "plain"
+      sources.messageFormat = "default"
+      
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Failed to load settings file",
+          extra: { error: message },
+        },
+      })
+    }
+  }
+  
   await client.app.log({
     body: {
       service: "opencode-autocommit",
       level: "info",
-      message: "Generating commit summary",
-      extra: { commitModel: settings.commitModel },
+      message: "Loaded settings",
+      extra: {
+        layers: layers.filter((l) => l.found).map((l) => ({ layer: l.name, location: l.location })),
+        settings,
+        sources,
+      },
     },
   })
   
-  const prompt = `Generate a one-line commit message (max 50 characters) for this turn.
-
-User prompt: ${turn.userPrompt}
-
-LLM response: ${turn.assistantResponse}
+  return { settings, sources, layers, errors }
+}
 
-Return ONLY the commit message, nothing else.`
+async function resolveCommitModel(model: string, client: OpencodeClient): Promise<CommitModelRef> {
+  const slash = model.indexOf("/")
+  if (slash > 0 && slash < model.length - 1) {
+    return { providerID: model.slice(0, slash), modelID: model.slice(slash + 1) }
+  }
+  
+  // No provider given: look the model up among the configured providers
+  const response = await client.config.providers()
+  const provider = response.data?.providers.find((p) => model in p.models)
+  if (!provider) {
+    throw new Error(`No configured provider offers model "${model}"`)
+  }
+  return { providerID: provider.id, modelID: model }
+}
 
+async function promptForSummary(
+  prompt: string,
+  model: CommitModelRef | undefined,
+  timeoutMs: number,
+  client: OpencodeClient
+): Promise<string> {
+  const tempSession = await client.session.create({
+    body: { title: "temp-commit-summary" }
+  })
+  
+  if (!tempSession.data) {
+    throw new Error("Failed to create temporary session")
+  }
+  
+  const sessionID = tempSession.data.id
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  
   try {
-    const tempSession = await client.session.create({
-      body: { title: "temp-commit-summary" }
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort()
+        reject(new Error(`Commit summary prompt timed out after ${timeoutMs}ms`))
+      }, timeoutMs)
     })
     
-    if (!tempSession.data) {
-      throw new Error("Failed to create temporary session")
-    }
+    const result = await Promise.race([
+      client.session.prompt({
+        path: { id: sessionID },
+        body: {
+          model,
+          parts: [{ 
+            type: "text", 
+            text: prompt
+          }] as any,
+        },
+        signal: controller.signal,
+      }),
+      timeout,
+    ])
     
-    const result = await client.session.prompt({
-      path: { id: tempSession.data.id },
-      body: {
-        parts: [{ 
-          type: "text", 
-          text: prompt
-        }] as any,
-      },
-    })
+    if (result.error) {
+      throw new Error(`Commit summary prompt failed: ${JSON.stringify(result.error)}`)
+    }
+    if (result.data?.info.error) {
+      throw new Error(`Commit summary model error: ${result.data.info.error.name}`)
+    }
 
     const textParts = result.data?.parts.filter((p) => p.type === 'text')
     const summary = textParts?.map((p) => p.text).join("\n").trim()
@@ -104,33 +375,108 @@ Return ONLY the commit message, nothing else.`
     if (!summary) {
       throw new Error("No text response from commit summary prompt")
     }
-
     
+    return summary
+  } finally {
+    clearTimeout(timer)
+    if (controller.signal.aborted) {
+      await client.session.abort({ path: { id: sessionID } }).catch(() => {})
+    }
     await client.session.delete({
-      path: { id: tempSession.data.id }
-    })
+      path: { id: sessionID }
+    }).catch(() => {})
+  }
+}
+
+async function generateCommitSummary(
+  turn: LastTurn,
+  files: string[],
+  diff: StagedDiff | undefined,
+  settings: AutoCommitSettings,
+  client: OpencodeClient
+): Promise<CommitSummary> {
+  // Try the configured model, then each fallback, then the default model
+  const candidates: (string | undefined)[] = [
+    ...[settings.commitModel, ...settings.commitModelFallbacks].filter((m): m is string => !!m),
+    undefined,
+  ]
   
-    await client.app.log({
-      body: {
-        service: "opencode-autocommit",
-        level: "info",
-        message: "Commit summary generated",
-        extra: { summary },
-      },
-    })
+  await client.app.log({
+    body: {
+      service: "opencode-autocommit",
+      level: "info",
+      message: "Generating commit summary",
+      extra: { commitModel: settings.commitModel, candidates: candidates.map((m) => m ?? "default") },
+    },
+  })
+  
+  // Whatever reaches the model is redacted, the staged diff included
+  const prompt = redactText(buildSummaryPrompt(settings.messageFormat, turn, files, diff), redactionRules(settings))
+
+  for (const candidate of candidates) {
+    try {
+      const model = candidate ? await resolveCommitModel(candidate, client) : undefined
+      const response = await promptForSummary(prompt, model, settings.commitModelTimeout, client)
+      const summary = settings.messageFormat === "conventional"
+        ? normalizeConventionalSummary(response, files)
+        : response
+      const modelName = model ? `${model.providerID}/${model.modelID}` : undefined
     
-    return summary
-  } catch (error) {
-    await client.app.log({
-      body: {
-        service: "opencode-autocommit",
-        level: "error",
-        message: "Failed to generate commit summary using temporary session",
-        extra: { error: error instanceof Error ? error.message : String(error) },
-      },
-    })
-    return "Auto-commit"
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Commit summary generated",
+          extra: { summary, model: modelName ?? "default" },
+        },
+      })
+      
+      return { summary, model: modelName }
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Failed to generate commit summary using temporary session",
+          extra: { model: candidate ?? "default", error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+    }
+  }
+  
+  const fallback = "Auto-commit"
+  return {
+    summary: settings.messageFormat === "conventional" ? normalizeConventionalSummary(fallback, files) : fallback,
+  }
+}
+
+function redactionRules(settings: AutoCommitSettings): RedactionRule[] {
+  return buildRedactionRules(settings.redact, settings.redactPatterns)
+}
+
+function redactTurn(turn: LastTurn, rules: RedactionRule[]): LastTurn {
+  if (rules.length === 0) return turn
+  return {
+    ...turn,
+    userPrompt: redactText(turn.userPrompt, rules),
+    assistantResponse: redactText(turn.assistantResponse, rules),
+    transcript: redactValue(turn.transcript, rules),
+  }
+}
+
+// Log extras carry prompts, responses and commit messages, so they are redacted like commit messages
+function withRedactedLogs(client: OpencodeClient, rules: () => RedactionRule[]): OpencodeClient {
+  const log = (options: Parameters<OpencodeClient["app"]["log"]>[0]) => {
+    const extra = options?.body?.extra
+    return client.app.log(extra ? { ...options, body: { ...options.body!, extra: redactValue(extra, rules()) } } : options)
   }
+  // The SDK exposes its namespaces as getters, so they are swapped in through proxies
+  const app = new Proxy(client.app, {
+    get: (target, key) => (key === "log" ? log : Reflect.get(target, key, target)),
+  })
+  return new Proxy(client, {
+    get: (target, key) => (key === "app" ? app : Reflect.get(target, key, target)),
+  })
 }
 
 function truncateCommitMessage(
@@ -144,17 +490,117 @@ function truncateCommitMessage(
   return message.substring(0, truncateLength) + ellipsis
 }
 
-function getLastTurn(messages: any[]): LastTurn | null {
-  let lastUserMsg: any = null
-  for (let i = messages.length - 1; i >= 0; i--) {
-    if (messages[i].info.role === "user") {
-      lastUserMsg = messages[i]
+function getToolFilePaths(part: any): string[] {
+  if (part.type !== "tool" || !FILE_EDIT_TOOLS.has(part.tool)) return []
+  
+  const input = part.state?.input ?? {}
+  const paths: string[] = []
+  
+  if (typeof input.filePath === "string") {
+    paths.push(input.filePath)
+  }
+  if (typeof input.patchText === "string") {
+    const headers = input.patchText.matchAll(/^\*\*\* (?:Add File|Update File|Delete File|Move to): (.+)$/gm)
+    for (const match of headers) {
+      paths.push(match[1].trim())
+    }
+  }
+  
+  return paths
+}
+
+// Turns after the last handled one, oldest first. Turns before `batchStartID` (the turn the
+// working tree baseline was taken for) belong to earlier batches. With neither to go by, only
+// the last turn is pending.
+function getPendingTurns(messages: any[], isHandled: (userMessageID: string) => boolean, batchStartID?: string): LastTurn[] {
+  const userMessages = messages.filter((m: any) => m.info.role === "user" && !isSyntheticMessage(m))
+  
+  let lastHandled = -1
+  for (let i = userMessages.length - 1; i >= 0; i--) {
+    if (isHandled(userMessages[i].info.id)) {
+      lastHandled = i
       break
     }
   }
   
-  if (!lastUserMsg) return null
+  const batchStart = batchStartID ? userMessages.findIndex((m: any) => m.info.id === batchStartID) : -1
+  const start = lastHandled >= 0 || batchStart >= 0
+    ? Math.max(lastHandled + 1, batchStart)
+    : userMessages.length - 1
+  
+  return userMessages.slice(Math.max(start, 0)).map((m: any) => buildTurn(messages, m))
+}
+
+// Messages the plugin (or opencode) added without the user typing anything, e.g. outcome notices
+function isSyntheticMessage(message: any): boolean {
+  const parts = message.parts ?? []
+  return parts.length > 0 && parts.every((p: any) => p.type === "text" && p.synthetic === true)
+}
+
+// Merge several turns into one for a commit that covers all of them. With `summaries`, each
+// turn's prompt is headed by its own summary line.
+function combineTurns(turns: LastTurn[], summaries?: string[]): LastTurn {
+  if (turns.length === 1) return turns[0]!
+  
+  return {
+    userMessageID: turns.map((t) => t.userMessageID).join(", "),
+    userPrompt: turns
+      .map((t, i) => `### Turn ${i + 1}${summaries?.[i] ? `: ${summaries[i]}` : ""}\n${t.userPrompt}`)
+      .join("\n\n"),
+    assistantResponse: turns.map((t, i) => `### Turn ${i + 1}\n${t.assistantResponse}`).join("\n\n"),
+    touchedFiles: [...new Set(turns.flatMap((t) => t.touchedFiles))],
+    model: turns[turns.length - 1]!.model,
+    transcript: turns.flatMap((t) => t.transcript),
+  }
+}
+
+// Give each changed file to the one turn that touched it. Returns null when a file was touched
+// by several turns, since the working tree only holds their combined result. With staging "all",
+// files no turn touched go to the last turn.
+function attributeToTurns(
+  turns: LastTurn[],
+  selection: CommitSelection,
+  directory: string,
+  repoRoot: string,
+  staging: StagingMode
+): { turns: LastTurn[]; selection: CommitSelection }[] | null {
+  const touched = turns.map((t) => new Set(t.touchedFiles.map((f) => toRepoPath(f, directory, repoRoot))))
+  const files = [...selection.paths, ...selection.deltas.map((d) => d.path)]
+  const owners = new Map<string, number>()
+  
+  for (const file of files) {
+    const owning = touched.flatMap((set, i) => (set.has(file) ? [i] : []))
+    if (owning.length > 1) return null
+    if (owning.length === 1) {
+      owners.set(file, owning[0]!)
+    } else if (staging === "all") {
+      owners.set(file, turns.length - 1)
+    }
+  }
   
+  return turns
+    .map((turn, i) => ({
+      turns: [turn],
+      selection: {
+        paths: selection.paths.filter((f) => owners.get(f) === i),
+        deltas: selection.deltas.filter((d) => owners.get(d.path) === i),
+      },
+    }))
+    .filter((group) => group.selection.paths.length > 0 || group.selection.deltas.length > 0)
+}
+
+function commitGroupFiles(group: CommitGroup, changedFiles: string[]): string[] {
+  return group.selection
+    ? [...group.selection.paths, ...group.selection.deltas.map((d) => d.path)]
+    : changedFiles
+}
+
+function getTurnByID(messages: any[], userMessageID: string): LastTurn | null {
+  const userMsg = messages.find((m: any) => m.info.role === "user" && m.info.id === userMessageID)
+  return userMsg ? buildTurn(messages, userMsg) : null
+}
+
+function buildTurn(messages: any[], lastUserMsg: any): LastTurn {
   const assistantMessages = messages.filter(
     (m: any) => m.info.role === "assistant" && m.info.parentID === lastUserMsg.info.id
   )
@@ -169,10 +615,22 @@ function getLastTurn(messages: any[]): LastTurn | null {
     .map((p: any) => p.text)
     .join("\n")
   
+  const touchedFiles = [
+    ...new Set(assistantMessages.flatMap((m: any) => m.parts.flatMap(getToolFilePaths)))
+  ]
+  
+  const lastAssistant = assistantMessages[assistantMessages.length - 1]?.info
+  const model = lastAssistant?.providerID && lastAssistant?.modelID
+    ? `${lastAssistant.providerID}/${lastAssistant.modelID}`
+    : undefined
+  
   return {
     userMessageID: lastUserMsg.info.id,
     userPrompt,
     assistantResponse,
+    touchedFiles,
+    model,
+    transcript: assistantMessages.flatMap((m: any) => getTranscriptEntries(m.parts)),
   }
 }
 
@@ -187,37 +645,132 @@ async function isWorktree($: BunShell, directory: string): Promise<boolean> {
   }
 }
 
-async function hasChanges($: BunShell): Promise<boolean> {
+async function getChangedFiles($: BunShell): Promise<string[]> {
   try {
-    const result = await $`git status --porcelain`.quiet()
-    const hasUncommitted = result.stdout.toString().trim().length > 0
-    return hasUncommitted
+    const result = await $`git status --porcelain -z --untracked-files=all`.quiet()
+    const entries = result.stdout.toString().split("\0").filter((e) => e.length > 0)
+    const files: string[] = []
+    
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i]!
+      files.push(entry.slice(3))
+      // Renames and copies are followed by their source path
+      if (entry[0] === "R" || entry[0] === "C") {
+        const source = entries[++i]
+        if (source) files.push(source)
+      }
+    }
+    
+    return files
   } catch {
-    return false
+    return []
+  }
+}
+
+async function getRepoRoot($: BunShell): Promise<string> {
+  const result = await $`git rev-parse --show-toplevel`.quiet()
+  return result.stdout.toString().trim()
+}
+
+function toRepoPath(file: string, directory: string, repoRoot: string): string {
+  const absolute = path.resolve(directory, file)
+  let resolved = absolute
+  try {
+    // Resolve symlinked parents (e.g. /tmp on macOS) so paths line up with git's toplevel
+    resolved = path.join(fs.realpathSync(path.dirname(absolute)), path.basename(absolute))
+  } catch {
+    // Parent no longer exists; keep the path as given
+  }
+  return path.relative(repoRoot, resolved)
+}
+
+async function getGitDir($: BunShell): Promise<string> {
+  const result = await $`git rev-parse --absolute-git-dir`.quiet()
+  return result.stdout.toString().trim()
+}
+
+function tempIndexEnv(indexFile: string): Record<string, string> {
+  return { ...(process.env as Record<string, string>), GIT_INDEX_FILE: indexFile }
+}
+
+async function snapshotWorkingTree($: BunShell): Promise<WorkingTreeSnapshot> {
+  const gitDir = await getGitDir($)
+  const indexFile = `${gitDir}/autocommit-snapshot-${crypto.randomUUID()}.index`
+  const env = tempIndexEnv(indexFile)
+  
+  try {
+    // Start from the real index so unchanged files keep their cached stat info
+    if (fs.existsSync(`${gitDir}/index`)) {
+      fs.copyFileSync(`${gitDir}/index`, indexFile)
+    }
+    await $`git add -A`.env(env).quiet()
+    const result = await $`git write-tree`.env(env).quiet()
+    
+    return {
+      tree: result.stdout.toString().trim(),
+      changedFiles: await getChangedFiles($),
+    }
+  } finally {
+    fs.rmSync(indexFile, { force: true })
   }
 }
 
-async function makeCommit($: BunShell, message: string, client: OpencodeClient): Promise<boolean> {
+async function diffTreeFiles($: BunShell, from: string, to: string): Promise<string[]> {
+  const result = await $`git diff-tree -r -z --no-renames --name-only ${from} ${to}`.quiet()
+  return result.stdout.toString().split("\0").filter((f) => f.length > 0)
+}
+
+async function diffTreePatch($: BunShell, from: string, to: string, file: string): Promise<string> {
+  const result = await $`git --literal-pathspecs diff-tree -p --binary --no-renames ${from} ${to} -- ${file}`.quiet()
+  return result.stdout.toString()
+}
+
+// Stages into a temporary index, so a commit that is skipped, blocked or fails leaves the user's
+// index as it was. `preview` only names the index differently.
+async function stageChanges(
+  $: BunShell,
+  selection: CommitSelection | null,
+  client: OpencodeClient,
+  preview = false
+): Promise<StagedChanges | null> {
+  const repoRoot = await getRepoRoot($)
+  
+  if (selection && selection.deltas.length > 0) {
+    return stageDeltaChanges($, repoRoot, selection, client)
+  }
+  
+  const paths = selection?.paths ?? null
+  const gitDir = await getGitDir($)
+  const indexFile = `${gitDir}/autocommit-${preview ? "preview" : "commit"}-${crypto.randomUUID()}.index`
+  const env = tempIndexEnv(indexFile)
+  
   try {
     await client.app.log({
       body: {
         service: "opencode-autocommit",
         level: "info",
-        message: "Staging all changes",
+        message: paths ? "Staging turn changes" : "Staging all changes",
+        extra: paths ? { files: paths, preview } : { preview },
       },
     })
     
-    await $`git add -A`.quiet()
+    if (paths) {
+      // Only the paths go on top of HEAD; anything else the user staged stays out of the commit.
+      // Without a HEAD yet, the missing index file reads as an empty one.
+      if (await resolveCommit($, "HEAD")) {
+        await $`git read-tree HEAD`.env(env).quiet()
+      }
+      await $`git --literal-pathspecs add -A -- ${paths}`.cwd(repoRoot).env(env).quiet()
+    } else {
+      if (fs.existsSync(`${gitDir}/index`)) {
+        fs.copyFileSync(`${gitDir}/index`, indexFile)
+      }
+      await $`git add -A`.env(env).quiet()
+    }
     
-    await client.app.log({
-      body: {
-        service: "opencode-autocommit",
-        level: "info",
-        message: "Creating commit",
-        extra: { messageLength: message.length },
-      },
-    })
+    return { repoRoot, paths, indexFile }
   } catch (error) {
+    fs.rmSync(indexFile, { force: true })
     await client.app.log({
       body: {
         service: "opencode-autocommit",
@@ -226,76 +779,1603 @@ async function makeCommit($: BunShell, message: string, client: OpencodeClient):
         extra: { error: error instanceof Error ? error.message : String(error) },
       },
     })
-    return false
+    return null
   }
+}
+
+async function stageDeltaChanges(
+  $: BunShell,
+  repoRoot: string,
+  selection: CommitSelection,
+  client: OpencodeClient
+): Promise<StagedChanges | null> {
+  // Build the commit in a temporary index seeded from HEAD, so only the turn's
+  // hunks of pre-existing changes are committed and the user's index is untouched
+  const gitDir = await getGitDir($)
+  const indexFile = `${gitDir}/autocommit-commit-${crypto.randomUUID()}.index`
+  const env = tempIndexEnv(indexFile)
+  const paths = [...selection.paths]
   
   try {
-    await $`git commit -m ${message}`.quiet()
-    
     await client.app.log({
       body: {
         service: "opencode-autocommit",
         level: "info",
-        message: "Commit created successfully",
+        message: "Staging turn changes on top of pre-existing changes",
+        extra: { files: selection.paths, deltaFiles: selection.deltas.map((d) => d.path) },
       },
     })
     
-    return true
+    await $`git read-tree HEAD`.env(env).quiet()
+    if (selection.paths.length > 0) {
+      await $`git --literal-pathspecs add -A -- ${selection.paths}`.cwd(repoRoot).env(env).quiet()
+    }
+    
+    for (const delta of selection.deltas) {
+      try {
+        await $`git apply --cached < ${new Response(delta.patch)}`.cwd(repoRoot).env(env).quiet()
+        paths.push(delta.path)
+      } catch (error) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "warn",
+            message: "Could not separate turn changes from pre-existing changes, leaving file unstaged",
+            extra: { file: delta.path, error: error instanceof Error ? error.message : String(error) },
+          },
+        })
+      }
+    }
+    
+    if (paths.length === 0) {
+      fs.rmSync(indexFile, { force: true })
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "No changes from this turn to commit",
+        },
+      })
+      return null
+    }
+    
+    return { repoRoot, paths, indexFile }
   } catch (error) {
+    fs.rmSync(indexFile, { force: true })
     await client.app.log({
       body: {
         service: "opencode-autocommit",
         level: "error",
-        message: "Failed to commit changes",
+        message: "Failed to stage changes",
         extra: { error: error instanceof Error ? error.message : String(error) },
       },
     })
-    return false
+    return null
+  }
+}
+
+function discardStagedChanges(staged: StagedChanges): void {
+  fs.rmSync(staged.indexFile, { force: true })
+}
+
+// Take files back out of a staged commit; they stay changed in the working tree
+async function unstageFiles($: BunShell, staged: StagedChanges, files: string[]): Promise<void> {
+  const env = tempIndexEnv(staged.indexFile)
+  if (!staged.paths) {
+    // Commit an explicit list from now on, since a plain commit would take the whole index
+    staged.paths = await listStagedFiles($, staged.repoRoot, env, null)
+  }
+  await $`git --literal-pathspecs reset -q -- ${files}`.cwd(staged.repoRoot).env(env).quiet()
+  staged.paths = staged.paths.filter((p) => !files.includes(p))
+}
+
+async function getStagedStat($: BunShell, staged: StagedChanges): Promise<string> {
+  const env = tempIndexEnv(staged.indexFile)
+  const pathspec = staged.paths ? ["--", ...staged.paths] : []
+  
+  const stat = await $`git --literal-pathspecs diff --cached --stat ${pathspec}`.cwd(staged.repoRoot).env(env).quiet()
+  return stat.stdout.toString()
+}
+
+async function getStagedDiff($: BunShell, staged: StagedChanges, budget: number): Promise<StagedDiff> {
+  const env = tempIndexEnv(staged.indexFile)
+  const pathspec = staged.paths ? ["--", ...staged.paths] : []
+  
+  const patch = await $`git --literal-pathspecs diff --cached --no-color ${pathspec}`.cwd(staged.repoRoot).env(env).quiet()
+  
+  return condenseDiff(await getStagedStat($, staged), patch.stdout.toString(), budget)
+}
+
+// What a failed git command printed, falling back to the error message
+function shellErrorOutput(error: unknown): string {
+  const failed = error as { stdout?: Buffer; stderr?: Buffer }
+  const output = `${failed.stdout?.toString() ?? ""}${failed.stderr?.toString() ?? ""}`.trim()
+  return output || (error instanceof Error ? error.message : String(error))
+}
+
+// Keep notifications short; the full output is in the log
+function describeFileCount(count: number): string {
+  return `${count} file${count === 1 ? "" : "s"}`
+}
+
+function lastLines(text: string, count = 5): string {
+  return text.trim().split("\n").slice(-count).join("\n")
+}
+
+async function hasCommitHooks($: BunShell): Promise<boolean> {
+  for (const hook of ["pre-commit", "commit-msg"]) {
+    // --git-path honours core.hooksPath
+    // It fails when core.hooksPath is not a directory (e.g. /dev/null), which disables hooks
+    const result = await $`git rev-parse --path-format=absolute --git-path ${`hooks/${hook}`}`.nothrow().quiet()
+    if (result.exitCode !== 0) continue
+    const hookPath = result.stdout.toString().trim()
+    try {
+      fs.accessSync(hookPath, fs.constants.X_OK)
+      return true
+    } catch {
+      continue
+    }
+  }
+  return false
+}
+
+// `output` holds what git (and its hooks) printed when the commit failed
+async function makeCommit(
+  $: BunShell,
+  message: string,
+  staged: StagedChanges,
+  client: OpencodeClient,
+  verify = true
+): Promise<{ sha: string | null; output?: string }> {
+  const hookArgs = verify ? [] : ["--no-verify"]
+
+  try {
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Creating commit",
+        extra: { messageLength: message.length },
+      },
+    })
+    
+    await $`git commit ${hookArgs} -m ${message}`.env(tempIndexEnv(staged.indexFile)).quiet()
+    // Bring the real index in line with the new HEAD for the committed paths. Anything else the
+    // user staged separately stays staged.
+    if (staged.paths) {
+      await $`git --literal-pathspecs reset -q -- ${staged.paths}`.cwd(staged.repoRoot).quiet()
+    } else {
+      await $`git reset -q`.quiet()
+    }
+    
+    const head = await $`git rev-parse HEAD`.quiet()
+    const sha = head.stdout.toString().trim()
+    
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Commit created successfully",
+        extra: { sha },
+      },
+    })
+    
+    return { sha }
+  } catch (error) {
+    const output = shellErrorOutput(error)
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "error",
+        message: "Failed to commit changes",
+        extra: { error: error instanceof Error ? error.message : String(error), output },
+      },
+    })
+    return { sha: null, output }
+  }
+}
+
+// On top of the longest step, for staging, committing and pushing
+const LOCK_MARGIN_MS = 5 * 60 * 1000
+
+// How long to wait for another session that holds the repository lock without making progress.
+// It refreshes the lock before its checks and before each summary, however many turns and
+// commits it handles, so the wait only has to outlast the longest of those steps.
+function lockTimeout(settings: AutoCommitSettings): number {
+  const summaryAttempts = (settings.commitModel ? 1 : 0) + settings.commitModelFallbacks.length + 1
+  return Math.max(settings.checkTimeout * settings.checks.length, settings.commitModelTimeout * summaryAttempts) + LOCK_MARGIN_MS
+}
+
+// Editors often write a file in several steps; wait for them to finish before reloading
+const SETTINGS_RELOAD_DELAY_MS = 200
+
+export const AutoCommitPlugin: Plugin = async ({ client: opencodeClient, $, directory, worktree }) => {
+  const loaded = await loadSettings($, directory, opencodeClient)
+  const settings = loaded.settings
+  const client = withRedactedLogs(opencodeClient, () => redactionRules(settings))
+  const settingsSources = loaded.sources
+  let settingsLayers = loaded.layers
+  let settingsErrors = loaded.errors
+  const settingsWatchers: fs.FSWatcher[] = []
+  let settingsReloadTimer: ReturnType<typeof setTimeout> | undefined
+  let settingsReload: Promise<void> = Promise.resolve()
+  
+  // Turns already handled per session, persisted so restarts neither re-commit nor skip turns
+  const state = createStateStore(directory)
+  // Created on first use because the directory may not be a git repository
+  let repoLock: RepoLock | undefined
+  
+  async function withRepoLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (!repoLock) {
+      const result = await $`git rev-parse --path-format=absolute --git-common-dir`.quiet()
+      // Worktrees share the lock with their main repository since they share its refs
+      repoLock = createRepoLock(`${result.stdout.toString().trim()}/opencode-autocommit.lock`, () => lockTimeout(settings))
+    }
+    return repoLock.run(fn)
+  }
+  // Working tree snapshots taken when a session's first pending turn started, consumed on idle
+  const baselines = new Map<string, { userMessageID: string; snapshot: Promise<WorkingTreeSnapshot | null> }>()
+  
+  // Notices posted with notify: message. opencode reports them like any user message, but they
+  // don't start a turn, so they must not take the baseline of the next real one.
+  const noticeIDs = new Set<string>()
+  const postingNotices = new Set<string>()
+  
+  async function recordBaseline(sessionID: string, userMessageID: string): Promise<void> {
+    if (noticeIDs.has(userMessageID) || postingNotices.has(sessionID)) return
+    // opencode keeps updating a user message after its turn, e.g. with its summary diffs. That
+    // says nothing about the next turn, which must snapshot the tree when its own prompt arrives.
+    if (state.hasTurn(sessionID, userMessageID)) return
+    // Keep the first snapshot until idle so queued messages don't move the baseline mid-turn
+    if (settings.mode === "disabled" || baselines.has(sessionID)) return
+    
+    const pending = snapshotWorkingTree($).catch(async (error) => {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Failed to snapshot working tree at turn start",
+          extra: { sessionID, error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+      return null
+    })
+    baselines.set(sessionID, { userMessageID, snapshot: pending })
+    
+    const baseline = await pending
+    if (baseline) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Recorded working tree baseline",
+          extra: { sessionID, userMessageID, tree: baseline.tree, preexistingFiles: baseline.changedFiles },
+        },
+      })
+    }
+  }
+  
+  // Branch each session commits to in branch mode, fixed on its first commit so later title changes don't move it
+  const sessionBranches = new Map<string, string>()
+  // Commits made since the session's last successful push, and the branch they are on
+  const unpushed = new Map<string, { branch: string; commits: number }>()
+  // Turns held back by `cadence`: the first turn of the batch and when it was first held back
+  const deferred = new Map<string, { userMessageID: string; since: number }>()
+  // Sessions whose pending turns commitNow asked to commit on the next idle
+  const commitRequests = new Set<string>()
+  // Branch (or commit, when detached) the user was on outside any session branch. New session
+  // branches start from it rather than from whichever session branch is checked out. It is kept
+  // in the state store, since after a restart HEAD may still be on a session branch.
+  let sessionBranchBase = state.readBranchBase()
+  
+  async function recordSessionBranchBase(): Promise<void> {
+    const current = await getCurrentBranch($)
+    if (current && ([...sessionBranches.values()].includes(current) || matchesBranchPattern(settings.branchPattern, current))) {
+      // A base that no longer resolves (e.g. its branch was deleted) can't be started from
+      if (sessionBranchBase && !(await resolveCommit($, sessionBranchBase))) sessionBranchBase = null
+      return
+    }
+    // An unborn branch has nothing to start from yet
+    const commit = await resolveCommit($, "HEAD")
+    if (!commit) return
+    sessionBranchBase = current ?? commit
+    state.recordBranchBase(sessionBranchBase)
+  }
+  
+  async function checkoutSessionBranch(sessionID: string): Promise<void> {
+    let branch = sessionBranches.get(sessionID)
+    if (!branch) {
+      let title: string | undefined
+      try {
+        const session = await client.session.get({ path: { id: sessionID } })
+        title = session.data?.title
+      } catch (error) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "warn",
+            message: "Failed to read session title, naming the branch after the session ID",
+            extra: { sessionID, error: error instanceof Error ? error.message : String(error) },
+          },
+        })
+      }
+      branch = renderBranchName(settings.branchPattern, { slug: sessionSlug(sessionID, title), sessionID })
+    }
+    
+    await recordSessionBranchBase()
+    const result = await switchToBranch($, branch, sessionBranchBase ?? undefined)
+    sessionBranches.set(sessionID, branch)
+    
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: result === "created" ? "Created session branch" : "Using session branch",
+        extra: { sessionID, branch, switched: result !== "current", ...(result === "created" ? { base: sessionBranchBase } : {}) },
+      },
+    })
+  }
+  
+  async function takeBaseline(sessionID: string): Promise<TurnBaseline | null> {
+    const pending = baselines.get(sessionID)
+    baselines.delete(sessionID)
+    return pending ? { userMessageID: pending.userMessageID, snapshot: await pending.snapshot } : null
+  }
+  
+  // A held-back batch is still compared with the working tree as it was before its first turn,
+  // even when a later turn recorded its own baseline in the meantime
+  function keepBaseline(sessionID: string, turnBaseline: TurnBaseline | null): void {
+    if (!turnBaseline) return
+    baselines.set(sessionID, { userMessageID: turnBaseline.userMessageID, snapshot: Promise.resolve(turnBaseline.snapshot) })
+  }
+  
+  function isCommitDue(sessionID: string, turns: LastTurn[]): boolean {
+    if (commitRequests.has(sessionID)) return true
+    
+    switch (settings.cadence) {
+      case "per-turn":
+        return true
+      case "every-n-turns":
+        return turns.length >= settings.cadenceTurns
+      case "min-interval": {
+        const since = deferred.get(sessionID)?.since ?? Date.now()
+        return Date.now() - since >= settings.cadenceMinutes * 60 * 1000
+      }
+      case "on-demand":
+        return false
+    }
+  }
+  
+  async function composeCommitMessage(
+    turns: LastTurn[],
+    sessionID: string,
+    files: string[],
+    diff: StagedDiff | undefined
+  ): Promise<{ message: string; summary: string; model?: string }> {
+    const rules = redactionRules(settings)
+    const redactedTurns = turns.map((t) => redactTurn(t, rules))
+    
+    let turnSummaries: string[] | undefined
+    if (turns.length > 1 && settings.cadence !== "per-turn") {
+      turnSummaries = []
+      for (const t of redactedTurns) {
+        repoLock?.refresh()
+        const { summary } = await generateCommitSummary(t, t.touchedFiles, undefined, settings, client)
+        turnSummaries.push(summary)
+      }
+    }
+    
+    const turn = combineTurns(redactedTurns, turnSummaries)
+    // Each summary is one step of lockTimeout, however many a commit needs
+    repoLock?.refresh()
+    const { summary, model } = await generateCommitSummary(turn, files, diff, settings, client)
+    
+    let messageFormat = settings.messageFormat
+    let template: string | undefined
+    if (messageFormat === "template") {
+      try {
+        if (!settings.messageTemplate) {
+          throw new Error("messageFormat is template but messageTemplate is not set")
+        }
+        template = await loadMessageTemplate(directory, settings.messageTemplate)
+      } catch (error) {
+        messageFormat = "plain"
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "error",
+            message: "Failed to load message template, using plain format",
+            extra: { error: error instanceof Error ? error.message : String(error) },
+          },
+        })
+      }
+    }
+    
+    const commitMessage = formatCommitMessage(messageFormat, {
+      summary,
+      prompt: turn.userPrompt,
+      response: turn.assistantResponse,
+      files,
+      sessionID,
+      turnID: turn.userMessageID,
+      model,
+      compact: settings.transcript === "notes",
+      sections: settings.messageSections,
+    }, template)
+    
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Created commit message",
+        extra: { summary, model: model ?? "default", messageLength: commitMessage.length },
+      },
+    })
+    
+    const truncatedMessage = truncateCommitMessage(commitMessage, settings.maxCommitLength)
+    
+    // Checkpoints are told apart from the history they start from by their session trailer
+    const trailers = settings.trailers || settings.mode === "shadow"
+      ? [
+          { key: TRAILER_SESSION, value: sessionID },
+          ...turns.map((t) => ({ key: TRAILER_TURN, value: t.userMessageID })),
+          ...[...new Set(turns.map((t) => t.model).filter((m): m is string => !!m))]
+            .map((value) => ({ key: TRAILER_MODEL, value })),
+        ]
+      : []
+    trailers.push(...settings.coAuthors.map((value) => ({ key: TRAILER_CO_AUTHOR, value })))
+    
+    let finalMessage = truncatedMessage
+    try {
+      finalMessage = await addTrailers($, truncatedMessage, trailers)
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Failed to add commit trailers, committing without them",
+          extra: { error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+    }
+    
+    return { message: finalMessage, summary, model }
+  }
+  
+  // The working tree compared with the session's latest checkpoint, or HEAD before the first one
+  async function pendingCheckpoint(sessionID: string) {
+    const ref = shadowRef(sessionID)
+    const previous = await resolveCommit($, ref)
+    const base = previous ?? await resolveCommit($, "HEAD")
+    const snapshot = await snapshotWorkingTree($)
+    
+    // Compare with the empty tree when the repository has no commits yet
+    const baseTree = base ? `${base}^{tree}` : (await $`git hash-object -t tree /dev/null`.quiet()).stdout.toString().trim()
+    const files = await diffTreeFiles($, baseTree, snapshot.tree)
+    return { ref, previous, base, baseTree, tree: snapshot.tree, files }
+  }
+  
+  async function checkpointDiffStat(baseTree: string, tree: string): Promise<string> {
+    const stat = await $`git diff-tree -r --stat ${baseTree} ${tree}`.quiet()
+    return stat.stdout.toString()
+  }
+  
+  async function checkpointSummaryDiff(baseTree: string, tree: string): Promise<StagedDiff | undefined> {
+    if (settings.summaryDiffBudget === 0) return undefined
+    const patch = await $`git diff-tree -r -p --no-color ${baseTree} ${tree}`.quiet()
+    return condenseDiff(await checkpointDiffStat(baseTree, tree), patch.stdout.toString(), settings.summaryDiffBudget)
+  }
+  
+  async function previewCheckpoint(turns: LastTurn[], sessionID: string): Promise<CommitPreview | null> {
+    const { baseTree, tree, files } = await pendingCheckpoint(sessionID)
+    if (files.length === 0) return null
+    
+    const diff = await checkpointSummaryDiff(baseTree, tree)
+    const { message, summary } = await composeCommitMessage(turns, sessionID, files, diff)
+    const diffstat = await checkpointDiffStat(baseTree, tree)
+    return { userMessageIDs: turns.map((t) => t.userMessageID), files, diffstat, summary, message, flagged: [] }
+  }
+  
+  async function createCheckpoint(turns: LastTurn[], sessionID: string): Promise<string | null> {
+    try {
+      const { ref, previous, base, baseTree, tree, files } = await pendingCheckpoint(sessionID)
+      if (files.length === 0) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "No changes since the last checkpoint",
+            extra: { sessionID, ref },
+          },
+        })
+        return null
+      }
+      
+      const diff = await checkpointSummaryDiff(baseTree, tree)
+      const { message, summary, model } = await composeCommitMessage(turns, sessionID, files, diff)
+      const sha = await writeCheckpoint($, ref, tree, previous, base, message)
+      await attachTranscript(sha, turns, sessionID)
+      
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Created checkpoint",
+          extra: { sessionID, ref, sha, files, summary, model: model ?? "default" },
+        },
+      })
+      await notify(sessionID, "success", `Checkpoint ${sha.slice(0, 7)}: ${summary} (${describeFileCount(files.length)})`)
+      return sha
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Failed to create checkpoint",
+          extra: { sessionID, error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+      await notify(sessionID, "error", `Checkpoint failed: ${lastLines(shellErrorOutput(error))}`)
+      return null
+    }
+  }
+  
+  // With transcript: notes, store the untruncated turns next to the commit. The commit stands without it.
+  async function attachTranscript(sha: string, turns: LastTurn[], sessionID: string): Promise<void> {
+    if (settings.transcript !== "notes") return
+    
+    try {
+      const rules = redactionRules(settings)
+      await writeTranscript($, sha, formatTranscript(sessionID, turns.map((t) => redactTurn(t, rules))))
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Failed to store the turn transcript in git notes",
+          extra: { sha, error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+    }
+  }
+  
+  // Tell the user how a commit attempt went, as configured by `notify`
+  async function notify(
+    sessionID: string,
+    variant: "info" | "success" | "warning" | "error",
+    message: string
+  ): Promise<void> {
+    try {
+      if (settings.notify === "toast") {
+        await client.tui.showToast({ body: { title: "Auto-commit", message, variant } })
+      } else if (settings.notify === "message") {
+        // No reply and synthetic, so neither the agent nor this plugin treats it as a turn
+        postingNotices.add(sessionID)
+        try {
+          const posted = await client.session.prompt({
+            path: { id: sessionID },
+            body: { noReply: true, parts: [{ type: "text", text: `Auto-commit: ${message}`, synthetic: true }] },
+          })
+          if (posted.data?.info.id) noticeIDs.add(posted.data.info.id)
+        } finally {
+          postingNotices.delete(sessionID)
+        }
+      }
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Failed to report auto-commit outcome",
+          extra: { notify: settings.notify, error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+    }
+  }
+  
+  // `commit` is false when nothing may be committed. A preview leaves reporting the findings to
+  // the caller, so nothing is logged or notified.
+  async function applyGuardrails(
+    sessionID: string,
+    staged: StagedChanges,
+    preview = false
+  ): Promise<{ commit: boolean; findings: GuardrailFinding[] }> {
+    const env = tempIndexEnv(staged.indexFile)
+    const findings = await scanStagedFiles($, staged.repoRoot, env, staged.paths, settings)
+    if (findings.length === 0) return { commit: true, findings }
+    
+    const files = [...new Set(findings.map((f) => f.path))]
+    const describe = (f: GuardrailFinding) => `${f.path} (${f.reason === "secret" ? f.detail : f.reason.replace("-", " ")})`
+    const summary = findings.map(describe).join(", ")
+    
+    if (settings.guardrailPolicy === "warn") {
+      if (!preview) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "warn",
+            message: "Committing files flagged by guardrails",
+            extra: { findings },
+          },
+        })
+        await notify(sessionID, "warning", `Committed flagged files: ${summary}`)
+      }
+      return { commit: true, findings }
+    }
+    
+    await unstageFiles($, staged, files)
+    
+    if (settings.guardrailPolicy === "block" || staged.paths?.length === 0) {
+      if (!preview) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "error",
+            message: "Commit blocked by guardrails",
+            extra: { policy: settings.guardrailPolicy, findings },
+          },
+        })
+        await notify(sessionID, "error", `Commit blocked: ${summary}`)
+      }
+      return { commit: false, findings }
+    }
+    
+    if (!preview) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Withheld files flagged by guardrails from the commit",
+          extra: { findings, remaining: staged.paths },
+        },
+      })
+      await notify(sessionID, "warning", `Left out of the commit: ${summary}`)
+    }
+    return { commit: true, findings }
+  }
+  
+  // How the turns' changes split into commits, or why there is nothing to commit
+  async function planCommits(turns: LastTurn[], baseline: WorkingTreeSnapshot | null): Promise<CommitPlan | { skipped: string }> {
+    const turn = combineTurns(turns)
+    const changedFiles = await getChangedFiles($)
+    if (changedFiles.length === 0) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "No changes to commit",
+        },
+      })
+      return { skipped: "No changes to commit" }
+    }
+    
+    let commitSelection: CommitSelection | null = null
+    
+    if (settings.staging === "turn") {
+      const repoRoot = await getRepoRoot($)
+      const touched = new Set(turn.touchedFiles.map((f) => toRepoPath(f, directory, repoRoot)))
+      const commitPaths = changedFiles.filter((f) => touched.has(f))
+      const untouchedFiles = changedFiles.filter((f) => !touched.has(f))
+      
+      if (untouchedFiles.length > 0) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "warn",
+            message: "Leaving changes made outside this turn unstaged",
+            extra: { files: untouchedFiles },
+          },
+        })
+      }
+      
+      if (commitPaths.length === 0) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "No changes from this turn to commit",
+            extra: { touchedFiles: turn.touchedFiles },
+          },
+        })
+        return { skipped: "No changes from this turn to commit" }
+      }
+      
+      commitSelection = { paths: commitPaths, deltas: [] }
+    }
+    
+    if (baseline) {
+      const candidates = commitSelection?.paths ?? changedFiles
+      const preexisting = new Set(baseline.changedFiles)
+      const overlapping = candidates.filter((f) => preexisting.has(f))
+      
+      if (overlapping.length > 0 && settings.preexistingChanges === "refuse") {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "warn",
+            message: "Files had uncommitted changes before the turn started, refusing to commit",
+            extra: { files: overlapping },
+          },
+        })
+        return { skipped: "Files had uncommitted changes before the turn started, refusing to commit" }
+      }
+      
+      if (overlapping.length > 0 && settings.preexistingChanges === "exclude") {
+        const current = await snapshotWorkingTree($)
+        const turnChanged = new Set(await diffTreeFiles($, baseline.tree, current.tree))
+        const deltas: CommitSelection["deltas"] = []
+        
+        for (const file of overlapping.filter((f) => turnChanged.has(f))) {
+          deltas.push({ path: file, patch: await diffTreePatch($, baseline.tree, current.tree, file) })
+        }
+        
+        const excludedFiles = overlapping.filter((f) => !turnChanged.has(f))
+        if (excludedFiles.length > 0) {
+          await client.app.log({
+            body: {
+              service: "opencode-autocommit",
+              level: "info",
+              message: "Leaving changes made before this turn unstaged",
+              extra: { files: excludedFiles },
+            },
+          })
+        }
+        
+        commitSelection = { paths: candidates.filter((f) => !preexisting.has(f)), deltas }
+        
+        if (commitSelection.paths.length === 0 && deltas.length === 0) {
+          await client.app.log({
+            body: {
+              service: "opencode-autocommit",
+              level: "info",
+              message: "No changes from this turn to commit",
+            },
+          })
+          return { skipped: "No changes from this turn to commit" }
+        }
+      }
+    } else if (settings.preexistingChanges !== "include") {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "No working tree baseline for this turn, existing changes are treated as part of it",
+        },
+      })
+    }
+    
+    if (settings.include.length > 0 || settings.exclude.length > 0) {
+      const selection = commitSelection ?? { paths: changedFiles, deltas: [] }
+      const included = (file: string) => isIncludedPath(file, settings.include, settings.exclude)
+      commitSelection = { paths: selection.paths.filter(included), deltas: selection.deltas.filter((d) => included(d.path)) }
+      
+      const outside = [...selection.paths, ...selection.deltas.map((d) => d.path)].filter((f) => !included(f))
+      if (outside.length > 0) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Leaving changes outside the include/exclude rules unstaged",
+            extra: { files: outside },
+          },
+        })
+      }
+      
+      if (commitSelection.paths.length === 0 && commitSelection.deltas.length === 0) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "No changes within the include/exclude rules to commit",
+          },
+        })
+        return { skipped: "No changes within the include/exclude rules to commit" }
+      }
+    }
+    
+    let groups: CommitGroup[] = [{ turns, selection: commitSelection }]
+    // Turns batched by cadence always share one commit
+    if (turns.length > 1 && settings.cadence === "per-turn") {
+      const repoRoot = await getRepoRoot($)
+      const attributed = attributeToTurns(
+        turns,
+        commitSelection ?? { paths: changedFiles, deltas: [] },
+        directory,
+        repoRoot,
+        settings.staging
+      )
+      
+      if (attributed) {
+        groups = attributed
+      } else {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Files were changed by more than one turn, committing the turns together",
+            extra: { userMessageIDs: turns.map((t) => t.userMessageID) },
+          },
+        })
+      }
+    }
+    
+    if (settings.pathGroups.length > 0) {
+      groups = groups.flatMap((group) => {
+        const selection = group.selection ?? { paths: changedFiles, deltas: [] }
+        const byPath = groupByPath(selection.paths, (f) => f, settings.pathGroups)
+        const deltasByPath = groupByPath(selection.deltas, (d) => d.path, settings.pathGroups)
+        const names = [...new Set([...byPath, ...deltasByPath].map((g) => g.group))]
+        // Files outside every path group go last
+        names.sort((a, b) => (a === null ? 1 : 0) - (b === null ? 1 : 0))
+        
+        return names.map((name) => ({
+          turns: group.turns,
+          selection: {
+            paths: byPath.find((g) => g.group === name)?.items ?? [],
+            deltas: deltasByPath.find((g) => g.group === name)?.items ?? [],
+          },
+        }))
+      })
+      
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Split changes by path group",
+          extra: { commits: groups.length },
+        },
+      })
+    }
+    
+    return { changedFiles, groups }
+  }
+  
+  async function commitTurn(sessionID: string, turnBaseline: TurnBaseline | null): Promise<void> {
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Fetching session messages",
+        extra: { sessionID },
+      },
+    })
+    
+    const response = await client.session.messages({ path: { id: sessionID } })
+    const messages = response.data ?? []
+    
+    if (!messages.some((m: any) => m.info.role === "user")) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "No turn found in messages",
+        },
+      })
+      return
+    }
+    
+    const batchStartID = deferred.get(sessionID)?.userMessageID ?? turnBaseline?.userMessageID
+    const turns = getPendingTurns(messages, (id) => state.hasTurn(sessionID, id), batchStartID)
+    
+    if (turns.length === 0) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Turn already committed, skipping",
+        },
+      })
+      return
+    }
+    
+    if (!isCommitDue(sessionID, turns)) {
+      const batch = deferred.get(sessionID) ?? { userMessageID: turns[0]!.userMessageID, since: Date.now() }
+      deferred.set(sessionID, batch)
+      keepBaseline(sessionID, turnBaseline)
+      
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Holding turns back until the commit cadence is due",
+          extra: { sessionID, cadence: settings.cadence, pendingTurns: turns.map((t) => t.userMessageID) },
+        },
+      })
+      return
+    }
+    deferred.delete(sessionID)
+    commitRequests.delete(sessionID)
+    
+    for (const t of turns) {
+      state.recordTurn(sessionID, t.userMessageID)
+    }
+    const baseline = turnBaseline?.snapshot ?? null
+    
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Processing new turn",
+        extra: { userMessageIDs: turns.map((t) => t.userMessageID) },
+      },
+    })
+    
+    if (settings.dryRun) {
+      const { commits, blocked } = await previewTurn(sessionID, turns, baseline)
+      if (blocked.length > 0) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Dry run, guardrails would block a commit",
+            extra: { sessionID, policy: settings.guardrailPolicy, findings: blocked },
+          },
+        })
+      }
+      for (const preview of commits) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Dry run, not committing",
+            extra: { sessionID, ...preview },
+          },
+        })
+        await notify(sessionID, "info", `Dry run, would commit: ${preview.summary} (${describeFileCount(preview.files.length)})`)
+      }
+      return
+    }
+    
+    if (settings.mode === "shadow") {
+      // A checkpoint holds the whole working tree, so queued turns share one
+      const sha = await createCheckpoint(turns, sessionID)
+      if (sha) {
+        for (const t of turns) state.recordTurn(sessionID, t.userMessageID, sha)
+      }
+      return
+    }
+    
+    const plan = await planCommits(turns, baseline)
+    if ("skipped" in plan) return
+    
+    for (const [i, group] of plan.groups.entries()) {
+      const { sha, refused } = await commitChanges(sessionID, group.turns, group.selection, commitGroupFiles(group, plan.changedFiles))
+      if (refused) {
+        // Checks or hooks turned the commit down, but its changes are still there: keep the turns
+        // pending so the next commit picks them up, like a batch held back by cadence
+        const pending = plan.groups.slice(i).flatMap((g) => g.turns.map((t) => t.userMessageID))
+        state.forgetTurns(sessionID, pending)
+        deferred.set(sessionID, { userMessageID: pending[0]!, since: Date.now() })
+        keepBaseline(sessionID, turnBaseline)
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Keeping refused turns pending for the next commit",
+            extra: { sessionID, pendingTurns: pending },
+          },
+        })
+      }
+      // Later turns' commits would sit on top of a missing one, so stop here
+      if (!sha) break
+    }
+    
+    await pushIfDue(sessionID)
+  }
+  
+  async function commitChanges(
+    sessionID: string,
+    turns: LastTurn[],
+    selection: CommitSelection | null,
+    commitFiles: string[]
+  ): Promise<{ sha: string | null; refused?: boolean }> {
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Found uncommitted changes, generating commit summary",
+        extra: { staging: settings.staging, files: commitFiles, userMessageIDs: turns.map((t) => t.userMessageID) },
+      },
+    })
+    
+    let staged: StagedChanges | null = null
+    
+    try {
+      if (settings.mode === "branch") {
+        await checkoutSessionBranch(sessionID)
+      }
+      
+      staged = await stageChanges($, selection, client)
+      if (!staged) return { sha: null }
+      
+      if (!(await applyGuardrails(sessionID, staged)).commit) return { sha: null }
+      
+      const turnIDs = turns.map((t) => t.userMessageID)
+      repoLock?.refresh()
+      const checkResults = settings.checks.length > 0
+        ? await runChecks(settings.checks, directory, settings.checkTimeout)
+        : []
+      const checksFailed = checkResults.some((r) => !checkPassed(r))
+      
+      if (checksFailed && settings.onCheckFailure === "skip") {
+        await reportChecks(sessionID, { time: Date.now(), turnIDs, outcome: "skipped", results: checkResults })
+        return { sha: null, refused: true }
+      }
+      
+      const stagedPaths = staged.paths
+      const files = stagedPaths ? commitFiles.filter((f) => stagedPaths.includes(f)) : commitFiles
+      
+      const diff = await readSummaryDiff(staged)
+      const { message: finalMessage, summary, model } = await composeCommitMessage(turns, sessionID, files, diff)
+      
+      let commit = await makeCommit($, checksFailed ? markChecksFailed(finalMessage) : finalMessage, staged, client)
+      
+      const hooksRejected = !commit.sha && (await hasCommitHooks($))
+      if (hooksRejected) {
+        // Treat a rejected commit like a failed check, so the agent gets the hook output
+        checkResults.push({ command: "git commit hooks", exitCode: 1, timedOut: false, durationMs: 0, output: trimOutput(commit.output ?? "") })
+        if (settings.onCheckFailure === "mark") {
+          commit = await makeCommit($, markChecksFailed(finalMessage), staged, client, false)
+        }
+      }
+      
+      if (checkResults.length > 0) {
+        const passed = checkResults.every(checkPassed)
+        const outcome = !commit.sha ? "skipped" : passed ? "passed" : "committed-with-failures"
+        await reportChecks(sessionID, { time: Date.now(), turnIDs, outcome, results: checkResults })
+      }
+      
+      const sha = commit.sha
+      if (sha) {
+        for (const t of turns) state.recordTurn(sessionID, t.userMessageID, sha)
+        await attachTranscript(sha, turns, sessionID)
+        
+        const branch = settings.push !== "never" ? await getCurrentBranch($) : null
+        if (branch) {
+          const pending = unpushed.get(sessionID)
+          unpushed.set(sessionID, { branch, commits: (pending?.branch === branch ? pending.commits : 0) + 1 })
+        }
+        
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Committed changes successfully",
+            extra: { summary, model: model ?? "default" },
+          },
+        })
+        await notify(sessionID, "success", `Committed ${sha.slice(0, 7)}: ${summary} (${describeFileCount(files.length)})`)
+      } else if (!hooksRejected) {
+        // A hook rejection was already reported with the checks
+        await notify(sessionID, "error", `Commit failed: ${lastLines(commit.output ?? "")}`)
+      }
+      return { sha, refused: !sha && hooksRejected }
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Error during auto-commit",
+          extra: { error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+      await notify(sessionID, "error", `Auto-commit failed: ${lastLines(shellErrorOutput(error))}`)
+      return { sha: null }
+    } finally {
+      if (staged) discardStagedChanges(staged)
+    }
+  }
+  
+  // The staged diff shown to the summary model, if summaryDiffBudget allows one
+  async function readSummaryDiff(staged: StagedChanges): Promise<StagedDiff | undefined> {
+    if (settings.summaryDiffBudget === 0) return undefined
+    
+    try {
+      return await getStagedDiff($, staged, settings.summaryDiffBudget)
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Failed to read staged diff, summarizing without it",
+          extra: { error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+      return undefined
+    }
+  }
+  
+  // What commitTurn would commit for the turns, worked out in a copy of the index. Checks and
+  // commit hooks don't run, and nothing is staged, committed, checked out or pushed. `blocked`
+  // lists what guardrails found in the changes they kept from being committed at all.
+  async function previewTurn(
+    sessionID: string,
+    turns: LastTurn[],
+    baseline: WorkingTreeSnapshot | null
+  ): Promise<{ commits: CommitPreview[]; blocked: GuardrailFinding[]; skipped?: string }> {
+    if (settings.mode === "shadow") {
+      const preview = await previewCheckpoint(turns, sessionID)
+      return preview
+        ? { commits: [preview], blocked: [] }
+        : { commits: [], blocked: [], skipped: "No changes since the last checkpoint" }
+    }
+    
+    const plan = await planCommits(turns, baseline)
+    if ("skipped" in plan) return { commits: [], blocked: [], skipped: plan.skipped }
+    
+    const commits: CommitPreview[] = []
+    const blocked: GuardrailFinding[] = []
+    for (const group of plan.groups) {
+      const preview = await previewChanges(sessionID, group.turns, group.selection, commitGroupFiles(group, plan.changedFiles))
+      if (preview && "blocked" in preview) blocked.push(...preview.blocked)
+      else if (preview) commits.push(preview)
+    }
+    return commits.length > 0
+      ? { commits, blocked }
+      : { commits, blocked, skipped: "Nothing left to commit after staging and guardrails" }
+  }
+  
+  async function previewChanges(
+    sessionID: string,
+    turns: LastTurn[],
+    selection: CommitSelection | null,
+    commitFiles: string[]
+  ): Promise<CommitPreview | { blocked: GuardrailFinding[] } | null> {
+    const staged = await stageChanges($, selection, client, true)
+    if (!staged) return null
+    
+    try {
+      const guardrails = await applyGuardrails(sessionID, staged, true)
+      if (!guardrails.commit) return { blocked: guardrails.findings }
+      
+      const stagedPaths = staged.paths
+      const files = stagedPaths ? commitFiles.filter((f) => stagedPaths.includes(f)) : commitFiles
+      const diffstat = await getStagedStat($, staged)
+      const { message, summary } = await composeCommitMessage(turns, sessionID, files, await readSummaryDiff(staged))
+      
+      return {
+        userMessageIDs: turns.map((t) => t.userMessageID),
+        files,
+        diffstat,
+        summary,
+        message,
+        flagged: guardrails.findings,
+      }
+    } finally {
+      discardStagedChanges(staged)
+    }
+  }
+  
+  // Commits the turns `cadence` is holding back when their session or the plugin ends, since no
+  // later idle will. Reports the batch when it can't be committed rather than dropping it quietly.
+  async function commitDeferred(sessionID: string): Promise<void> {
+    const batch = deferred.get(sessionID)
+    if (!batch) return
+    
+    try {
+      if (settings.mode !== "disabled") {
+        commitRequests.add(sessionID)
+        const turnBaseline = await takeBaseline(sessionID)
+        await withRepoLock(() => commitTurn(sessionID, turnBaseline))
+      }
+      // commitTurn clears the batch once it is committed
+      if (!deferred.has(sessionID)) return
+      
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Session ended with turns held back by cadence, leaving them uncommitted",
+          extra: { sessionID, mode: settings.mode, batchStartID: batch.userMessageID },
+        },
+      })
+      await notify(sessionID, "warning", "Turns held back by cadence were left uncommitted")
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Failed to commit turns held back by cadence",
+          extra: { sessionID, batchStartID: batch.userMessageID, error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+      await notify(sessionID, "error", "Turns held back by cadence were left uncommitted")
+    } finally {
+      deferred.delete(sessionID)
+      commitRequests.delete(sessionID)
+    }
+  }
+  
+  async function pushIfDue(sessionID: string): Promise<void> {
+    const pending = unpushed.get(sessionID)
+    if (!pending) return
+    
+    if (settings.push === "per-turn" || (settings.push === "every-n-commits" && pending.commits >= settings.pushEvery)) {
+      await pushSession(sessionID)
+    }
+  }
+  
+  // Failures are reported and the commits stay pending, so the next push tries again
+  async function pushSession(sessionID: string): Promise<void> {
+    const pending = unpushed.get(sessionID)
+    if (!pending || settings.push === "never") return
+    
+    const { branch, commits } = pending
+    const remote = settings.pushRemote
+    
+    if (isProtectedBranch(branch, settings.protectedBranches)) {
+      unpushed.delete(sessionID)
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Refusing to push a protected branch",
+          extra: { sessionID, remote, branch },
+        },
+      })
+      await notify(sessionID, "warning", `Not pushed, ${branch} is a protected branch`)
+      return
+    }
+    
+    try {
+      let result = await pushBranch($, remote, branch)
+      if (result.rejected) {
+        if (!(await rebaseOntoRemote(sessionID, remote, branch))) return
+        result = await pushBranch($, remote, branch)
+      }
+      
+      if (!result.pushed) {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "error",
+            message: "Push failed",
+            extra: { sessionID, remote, branch, output: result.output },
+          },
+        })
+        await notify(sessionID, "error", `Push to ${remote} failed: ${lastLines(result.output)}`)
+        return
+      }
+      
+      unpushed.delete(sessionID)
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Pushed auto-commits",
+          extra: { sessionID, remote, branch, commits },
+        },
+      })
+      await notify(sessionID, "success", `Pushed ${branch} to ${remote}`)
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Push failed",
+          extra: { sessionID, remote, branch, error: error instanceof Error ? error.message : String(error) },
+        },
+      })
+      await notify(sessionID, "error", `Push to ${remote} failed: ${lastLines(shellErrorOutput(error))}`)
+    }
+  }
+  
+  // After a rejected push: replays the branch's commits on top of the remote branch, but only when
+  // every commit the remote lacks was made by auto-commit. Returns whether the branch was rebased.
+  async function rebaseOntoRemote(sessionID: string, remote: string, branch: string): Promise<boolean> {
+    const ref = `refs/heads/${branch}`
+    const remoteTip = await fetchBranch($, remote, branch)
+    const local = await listCommits($, `${remoteTip}..${ref}`)
+    
+    // Commits without trailers are recognized by the SHAs recorded for the session
+    const recorded = new Set(state.read(sessionID).turns.map((t) => t.sha))
+    const foreign = local.filter((c) => c.parents.length > 1 || !(c.trailers.sessionID || recorded.has(c.sha)))
+    if (foreign.length > 0) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "warn",
+          message: "Remote branch has new commits and the local branch has commits not made by auto-commit, not rebasing",
+          extra: { sessionID, remote, branch, commits: foreign.map((c) => c.sha) },
+        },
+      })
+      await notify(sessionID, "error", `Push to ${remote} rejected: ${branch} has diverged and has commits not made by auto-commit`)
+      return false
+    }
+    
+    const oldTip = (await $`git rev-parse ${ref}`.quiet()).stdout.toString().trim()
+    const replayed = local.map((c) => c.sha).reverse()
+    const newTip = await replayCommits($, remoteTip, replayed)
+    
+    // cherry-pick leaves notes behind, so carry the transcripts over to the new commits
+    const rebased = (await $`git rev-list --reverse ${`${remoteTip}..${newTip}`}`.quiet()).stdout.toString().split("\n").filter((l) => l.length > 0)
+    for (const [i, sha] of rebased.entries()) {
+      const transcript = replayed[i] ? await readTranscript($, replayed[i]) : null
+      if (transcript !== null) await writeTranscript($, sha, transcript)
+    }
+    
+    if ((await getCurrentBranch($)) === branch) {
+      // Carries uncommitted changes over, and refuses if the remote's changes would overwrite them
+      await $`git checkout --quiet -B ${branch} ${newTip}`.quiet()
+    } else {
+      await $`git update-ref ${ref} ${newTip} ${oldTip}`.quiet()
+    }
+    
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: "info",
+        message: "Rebased auto-commits onto the remote branch",
+        extra: { sessionID, remote, branch, commits: local.length, from: oldTip, to: newTip },
+      },
+    })
+    return true
+  }
+  
+  async function reportChecks(sessionID: string, report: CheckReport): Promise<void> {
+    state.recordChecks(sessionID, report)
+    
+    const failed = report.results.filter((r) => !checkPassed(r))
+    if (failed.length === 0) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Checks passed",
+          extra: { commands: report.results.map((r) => r.command) },
+        },
+      })
+      return
+    }
+    
+    await client.app.log({
+      body: {
+        service: "opencode-autocommit",
+        level: report.outcome === "skipped" ? "error" : "warn",
+        message: report.outcome === "skipped" ? "Checks failed, skipping commit" : `Checks failed, committed with ${CHECKS_FAILED_MARKER}`,
+        extra: { results: failed },
+      },
+    })
+    
+    const names = failed.map((r) => (r.timedOut ? `${r.command} (timed out)` : r.command)).join(", ")
+    await notify(
+      sessionID,
+      report.outcome === "skipped" ? "error" : "warning",
+      report.outcome === "skipped" ? `Not committed, checks failed: ${names}` : `Committed with failing checks: ${names}`
+    )
+  }
+  
+  // Applies edits to the settings files. Values changed with /setAutoCommitSettings for this session are kept.
+  async function reloadSettings(): Promise<void> {
+    const reloaded = await loadSettings($, directory, client)
+    
+    // Errors that were already there when the current settings were loaded don't block the reload
+    const newErrors = reloaded.errors.filter((e) => !settingsErrors.includes(e))
+    if (newErrors.length > 0) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "error",
+          message: "Settings changed but are invalid, keeping the previous settings",
+          extra: { errors: newErrors },
+        },
+      })
+      return
+    }
+    
+    const changes: Record<string, { from: unknown; to: unknown; source: SettingsSource }> = {}
+    for (const key of new Set([...Object.keys(settingsSources), ...Object.keys(reloaded.sources)])) {
+      if (settingsSources[key] === "set") continue
+      const name = key as keyof AutoCommitSettings
+      const source = reloaded.sources[key]
+      
+      if (!Bun.deepEquals(settings[name], reloaded.settings[name])) {
+        changes[key] = { from: settings[name], to: reloaded.settings[name], source: source ?? "default" }
+      }
+      if (source) {
+        Object.assign(settings, { [name]: reloaded.settings[name] })
+        settingsSources[key] = source
+      } else {
+        delete settings[name]
+        delete settingsSources[key]
+      }
+    }
+    settingsLayers = reloaded.layers
+    settingsErrors = reloaded.errors
+    
+    if (Object.keys(changes).length > 0) {
+      await client.app.log({
+        body: {
+          service: "opencode-autocommit",
+          level: "info",
+          message: "Reloaded settings",
+          extra: { changes },
+        },
+      })
+    }
   }
-}
-
-export const AutoCommitPlugin: Plugin = async ({ client, $, directory, worktree }) => {
-  const fileSettings = await loadSettingsFromFile(directory, client)
-  const settings: AutoCommitSettings = {
-    mode: "disabled",
-    maxCommitLength: 10000,
-    ...fileSettings,
+  
+  function scheduleSettingsReload(): void {
+    clearTimeout(settingsReloadTimer)
+    settingsReloadTimer = setTimeout(() => {
+      settingsReload = settingsReload.then(reloadSettings).catch(async (error) => {
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "error",
+            message: "Failed to reload settings",
+            extra: { error: error instanceof Error ? error.message : String(error) },
+          },
+        })
+      })
+    }, SETTINGS_RELOAD_DELAY_MS)
+  }
+  
+  // Directories are watched rather than the files, since editors often replace a file instead of
+  // writing to it, and a file that doesn't exist yet can't be watched
+  function watchSettingsFiles(): void {
+    const files = settingsLayers.filter((l) => l.name !== "env").map((l) => l.location)
+    
+    for (const dir of new Set(files.map((f) => path.dirname(f)))) {
+      const names = new Set(files.filter((f) => path.dirname(f) === dir).map((f) => path.basename(f)))
+      try {
+        const watcher = fs.watch(dir, (_event, filename) => {
+          if (filename && !names.has(filename.toString())) return
+          scheduleSettingsReload()
+        })
+        // Watching must not keep the process alive on its own
+        watcher.unref()
+        settingsWatchers.push(watcher)
+      } catch {
+        // The directory doesn't exist, e.g. no global config directory
+      }
+    }
   }
   
-  let lastCommittedTurnID: string | undefined
+  watchSettingsFiles()
   
   const getSettingsTool = tool({
-    description: "Get current auto-commit plugin settings",
+    description: "Get current auto-commit plugin settings, the layer each value came from, and any settings errors",
     args: {},
     async execute(_args, _context) {
-      return JSON.stringify(settings, null, 2)
+      return JSON.stringify(
+        {
+          settings,
+          sources: settingsSources,
+          layers: settingsLayers.map((l) => ({ layer: l.name, location: l.location, found: l.found })),
+          errors: settingsErrors,
+        },
+        null,
+        2
+      )
     },
   })
   
   const setSettingsTool = tool({
-    description: "Set auto-commit plugin settings",
+    description:
+      "Set auto-commit plugin settings for this session, or persist them with persist=true (repo settings file) or scope=repo|worktree|global",
     args: {
+      persist: toolSchema.schema.boolean().optional(),
+      scope: toolSchema.schema.string().optional(),
       mode: toolSchema.schema.string().optional(),
       commitModel: toolSchema.schema.string().optional(),
+      commitModelFallbacks: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      commitModelTimeout: toolSchema.schema.number().optional(),
       maxCommitLength: toolSchema.schema.number().optional(),
+      staging: toolSchema.schema.string().optional(),
+      preexistingChanges: toolSchema.schema.string().optional(),
+      messageFormat: toolSchema.schema.string().optional(),
+      messageTemplate: toolSchema.schema.string().optional(),
+      summaryDiffBudget: toolSchema.schema.number().optional(),
+      trailers: toolSchema.schema.boolean().optional(),
+      coAuthors: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      branchPattern: toolSchema.schema.string().optional(),
+      guardrailPolicy: toolSchema.schema.string().optional(),
+      denyPaths: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      maxFileSize: toolSchema.schema.number().optional(),
+      secretScan: toolSchema.schema.boolean().optional(),
+      checks: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      checkTimeout: toolSchema.schema.number().optional(),
+      onCheckFailure: toolSchema.schema.string().optional(),
+      notify: toolSchema.schema.string().optional(),
+      include: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      exclude: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      pathGroups: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      push: toolSchema.schema.string().optional(),
+      pushEvery: toolSchema.schema.number().optional(),
+      pushRemote: toolSchema.schema.string().optional(),
+      protectedBranches: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      transcript: toolSchema.schema.string().optional(),
+      dryRun: toolSchema.schema.boolean().optional(),
+      cadence: toolSchema.schema.string().optional(),
+      cadenceTurns: toolSchema.schema.number().optional(),
+      cadenceMinutes: toolSchema.schema.number().optional(),
+      messageSections: toolSchema.schema.string().optional(),
+      redact: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      redactPatterns: toolSchema.schema.array(toolSchema.schema.string()).optional(),
     },
     async execute(args, _context) {
       try {
-        const update: Partial<AutoCommitSettings> = {}
+        const { persist, scope: scopeArg, ...values } = args
+        const scope = ZSettingsScope.parse(scopeArg ?? (persist ? "repo" : "session"))
         
-        if (args.mode !== undefined) {
-          update.mode = ZAutoCommitMode.parse(args.mode)
+        const raw: Record<string, unknown> = {}
+        const cleared: string[] = []
+        for (const [key, value] of Object.entries(values)) {
+          if (value === undefined) continue
+          // An empty string unsets an optional setting such as commitModel
+          if (value === "" && ZAutoCommitSettings.shape[key as keyof AutoCommitSettings] instanceof z.ZodOptional) {
+            cleared.push(key)
+            continue
+          }
+          raw[key] = Array.isArray(value) ? value.filter((item) => item.trim().length > 0) : value
         }
-        if (args.commitModel !== undefined) {
-          update.commitModel = args.commitModel || undefined
+        
+        const { values: validated, errors } = validateLayer(ZAutoCommitSettings, raw)
+        if (errors.length > 0) {
+          throw new Error(errors.join("; "))
         }
-        if (args.maxCommitLength !== undefined) {
-          update.maxCommitLength = args.maxCommitLength
+        const update: Partial<AutoCommitSettings> = { ...validated }
+        for (const key of cleared) {
+          update[key as keyof AutoCommitSettings] = undefined
         }
         
-        Object.assign(settings, update)
+        const messageTemplate = "messageTemplate" in update ? update.messageTemplate : settings.messageTemplate
+        if ((update.messageFormat ?? settings.messageFormat) === "template") {
+          if (!messageTemplate) {
+            throw new Error("messageFormat is template but messageTemplate is not set")
+          }
+          await loadMessageTemplate(directory, messageTemplate)
+        }
         
-        return JSON.stringify(settings, null, 2)
+        if (scope === "session") {
+          Object.assign(settings, update)
+          for (const key of Object.keys(update)) {
+            settingsSources[key] = "set"
+          }
+          
+          return JSON.stringify(settings, null, 2)
+        }
+        
+        const settingsPath =
+          scope === "global"
+            ? globalSettingsPath()
+            : scope === "repo"
+              ? path.join(directory, SETTINGS_FILE)
+              : await worktreeSettingsPath($)
+        if (!settingsPath) {
+          throw new Error("worktree scope needs a git repository")
+        }
+        await updateSettingsFile(settingsPath, update)
+        
+        // Take the persisted values from a fresh load, so a higher layer that overrides them still wins
+        const reloaded = await loadSettings($, directory, client)
+        const overridden: Record<string, SettingsSource> = {}
+        for (const key of Object.keys(update) as (keyof AutoCommitSettings)[]) {
+          Object.assign(settings, { [key]: reloaded.settings[key] })
+          const source = reloaded.sources[key]
+          if (source) {
+            settingsSources[key] = source
+          } else {
+            delete settingsSources[key]
+          }
+          if (source !== scope && update[key] !== undefined) {
+            overridden[key] = source ?? "default"
+          }
+        }
+        settingsLayers = reloaded.layers
+        settingsErrors = reloaded.errors
+        
+        await client.app.log({
+          body: {
+            service: "opencode-autocommit",
+            level: "info",
+            message: "Persisted settings",
+            extra: { scope, settingsPath, update, overridden },
+          },
+        })
+        
+        return JSON.stringify({ settings, persisted: { scope, settingsPath }, overridden }, null, 2)
       } catch (error) {
         throw new Error(`Failed to update settings: ${error instanceof Error ? error.message : String(error)}`)
       }
@@ -303,18 +2383,23 @@ export const AutoCommitPlugin: Plugin = async ({ client, $, directory, worktree
   })
   
   const resetSettingsTool = tool({
-    description: "Reset auto-commit plugin settings to defaults from settings file",
+    description: "Reset auto-commit plugin settings to those loaded from the settings files and environment",
     args: {},
     async execute(_args, _context) {
       try {
-        const fileSettings = await loadSettingsFromFile(directory, client)
-        const defaults: AutoCommitSettings = {
-          mode: "disabled",
-          maxCommitLength: 10000,
-          ...fileSettings,
-        }
+        const reloaded = await loadSettings($, directory, client)
         
-        Object.assign(settings, defaults)
+        // Values set at runtime that no layer provides go back to unset
+        for (const key of Object.keys(settingsSources)) {
+          if (!(key in reloaded.sources)) {
+            delete settings[key as keyof AutoCommitSettings]
+            delete settingsSources[key]
+          }
+        }
+        Object.assign(settings, reloaded.settings)
+        Object.assign(settingsSources, reloaded.sources)
+        settingsLayers = reloaded.layers
+        settingsErrors = reloaded.errors
         
         return JSON.stringify(settings, null, 2)
       } catch (error) {
@@ -328,19 +2413,61 @@ export const AutoCommitPlugin: Plugin = async ({ client, $, directory, worktree
     args: {
       mode: toolSchema.schema.string().optional(),
       commitModel: toolSchema.schema.string().optional(),
+      commitModelFallbacks: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      commitModelTimeout: toolSchema.schema.number().optional(),
       maxCommitLength: toolSchema.schema.number().optional(),
+      staging: toolSchema.schema.string().optional(),
+      preexistingChanges: toolSchema.schema.string().optional(),
+      messageFormat: toolSchema.schema.string().optional(),
+      messageTemplate: toolSchema.schema.string().optional(),
+      summaryDiffBudget: toolSchema.schema.number().optional(),
+      trailers: toolSchema.schema.boolean().optional(),
+      coAuthors: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      branchPattern: toolSchema.schema.string().optional(),
+      guardrailPolicy: toolSchema.schema.string().optional(),
+      denyPaths: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      maxFileSize: toolSchema.schema.number().optional(),
+      secretScan: toolSchema.schema.boolean().optional(),
+      checks: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      checkTimeout: toolSchema.schema.number().optional(),
+      onCheckFailure: toolSchema.schema.string().optional(),
+      notify: toolSchema.schema.string().optional(),
+      include: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      exclude: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      pathGroups: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      push: toolSchema.schema.string().optional(),
+      pushEvery: toolSchema.schema.number().optional(),
+      pushRemote: toolSchema.schema.string().optional(),
+      protectedBranches: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      transcript: toolSchema.schema.string().optional(),
+      dryRun: toolSchema.schema.boolean().optional(),
+      cadence: toolSchema.schema.string().optional(),
+      cadenceTurns: toolSchema.schema.number().optional(),
+      cadenceMinutes: toolSchema.schema.number().optional(),
+      messageSections: toolSchema.schema.string().optional(),
+      redact: toolSchema.schema.array(toolSchema.schema.string()).optional(),
+      redactPatterns: toolSchema.schema.array(toolSchema.schema.string()).optional(),
     },
     async execute(args, _context) {
       try {
-        const settingsPath = `${directory}/.opencode/auto-commit.settings.yml`
+        const settingsPath = path.join(directory, SETTINGS_FILE)
         
-        const newSettings: Partial<AutoCommitSettings> = {
-          mode: args.mode ? ZAutoCommitMode.parse(args.mode) : "disabled",
-          maxCommitLength: args.maxCommitLength ?? 10000,
+        const raw: Record<string, unknown> = { mode: "disabled", maxCommitLength: 10000 }
+        for (const [key, value] of Object.entries(args)) {
+          // An empty string leaves the setting out, as if it wasn't given
+          if (value === undefined || value === "") continue
+          raw[key] = Array.isArray(value) ? value.filter((item) => item.trim().length > 0) : value
         }
         
-        if (args.commitModel) {
-          newSettings.commitModel = args.commitModel
+        const { values: newSettings, errors } = validateLayer(ZAutoCommitSettings, raw)
+        if (errors.length > 0) {
+          throw new Error(errors.join("; "))
+        }
+        if (newSettings.messageFormat === "template") {
+          if (!newSettings.messageTemplate) {
+            throw new Error("messageFormat is template but messageTemplate is not set")
+          }
+          await loadMessageTemplate(directory, newSettings.messageTemplate)
         }
         
         const yamlContent = yaml.stringify(newSettings)
@@ -370,163 +2497,513 @@ export const AutoCommitPlugin: Plugin = async ({ client, $, directory, worktree
     },
   })
   
-  return {
-    event: async ({ event }) => {
-      if (event.type !== "session.idle") return
-      
-      await client.app.log({
-        body: {
-          service: "opencode-autocommit",
-          level: "info",
-          message: "Session idle event received",
-          extra: { mode: settings.mode },
-        },
-      })
-      
-      if (settings.mode === "disabled") {
-        await client.app.log({
-          body: {
-            service: "opencode-autocommit",
-            level: "info",
-            message: "Auto-commit disabled",
-          },
+  const trailersTool = tool({
+    description: "Read the auto-commit trailers (session, turn, model, co-authors) from a commit",
+    args: {
+      commit: toolSchema.schema.string().optional(),
+    },
+    async execute(args, _context) {
+      try {
+        const trailers = await readCommitTrailers($, args.commit || "HEAD")
+        return JSON.stringify(trailers, null, 2)
+      } catch (error) {
+        throw new Error(`Failed to read trailers: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const undoTool = tool({
+    description: "Undo the most recent auto-commits of this session. They must be at HEAD and unpushed. Modes: reset (drop the commits and their changes, keeping uncommitted user changes), soft (drop the commits, keep their changes staged), revert (add revert commits)",
+    args: {
+      count: toolSchema.schema.number().int().min(1).optional(),
+      mode: toolSchema.schema.string().optional(),
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      try {
+        const sessionID = args.sessionID || context.sessionID
+        const count = args.count ?? 1
+        const mode = ZUndoMode.parse(args.mode ?? "reset")
+        
+        return await withRepoLock(async () => {
+          const commits = await listCommits($, "HEAD", count)
+          if (commits.length < count) {
+            throw new Error(`Only ${commits.length} commits in history, cannot undo ${count}`)
+          }
+          
+          for (const [i, commit] of commits.entries()) {
+            if (commit.trailers.sessionID !== sessionID) {
+              throw new Error(`HEAD~${i} (${commit.sha.slice(0, 7)} "${commit.subject}") is not an auto-commit of session ${sessionID}`)
+            }
+            if (commit.parents.length !== 1) {
+              throw new Error(`HEAD~${i} (${commit.sha.slice(0, 7)}) is a merge or root commit and cannot be undone`)
+            }
+            if (await isPushed($, commit.sha)) {
+              throw new Error(`HEAD~${i} (${commit.sha.slice(0, 7)}) has already been pushed`)
+            }
+          }
+          
+          const target = commits[commits.length - 1]!.parents[0]!
+          
+          if (mode === "reset") {
+            // --keep refuses instead of overwriting files with uncommitted changes
+            await $`git reset --keep ${target}`.quiet()
+          } else if (mode === "soft") {
+            await $`git reset --soft ${target}`.quiet()
+          } else {
+            try {
+              await $`git revert --no-edit ${commits.map((c) => c.sha)}`.quiet()
+            } catch (error) {
+              await $`git revert --abort`.quiet().nothrow()
+              throw error
+            }
+          }
+          
+          const head = (await $`git rev-parse HEAD`.quiet()).stdout.toString().trim()
+          const undone = commits.map((c) => ({ sha: c.sha, subject: c.subject, turnID: c.trailers.turnID }))
+          
+          await client.app.log({
+            body: {
+              service: "opencode-autocommit",
+              level: "info",
+              message: "Undid auto-commits",
+              extra: { sessionID, mode, undone, head },
+            },
+          })
+          
+          return JSON.stringify({ mode, undone, head }, null, 2)
         })
-        return
+      } catch (error) {
+        throw new Error(`Failed to undo auto-commits: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const squashTool = tool({
+    description: "Squash the consecutive auto-commits of a session at HEAD into one commit with a combined, model-generated message. Refuses if another commit is interleaved with them or they were pushed",
+    args: {
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      try {
+        const sessionID = args.sessionID || context.sessionID
+        return await withRepoLock(async () => {
+          const sessionCommits = await listSessionCommits($, sessionID)
+          const headCommits = await listCommits($, "HEAD", sessionCommits.length)
+          
+          if (sessionCommits.length < 2) {
+            throw new Error(`Session ${sessionID} has ${sessionCommits.length} auto-commit(s), nothing to squash`)
+          }
+          
+          for (const [i, commit] of headCommits.entries()) {
+            if (commit.sha !== sessionCommits[i]?.sha) {
+              throw new Error(`HEAD~${i} (${commit.sha.slice(0, 7)} "${commit.subject}") is not an auto-commit of session ${sessionID} but sits between them`)
+            }
+            if (commit.parents.length !== 1) {
+              throw new Error(`HEAD~${i} (${commit.sha.slice(0, 7)}) is a merge or root commit and cannot be squashed`)
+            }
+            if (await isPushed($, commit.sha)) {
+              throw new Error(`HEAD~${i} (${commit.sha.slice(0, 7)}) has already been pushed`)
+            }
+          }
+          
+          // Oldest first, so turns read in the order they happened
+          const commits = [...sessionCommits].reverse()
+          const base = commits[0]!.parents[0]!
+          const head = sessionCommits[0]!.sha
+          
+          const response = await client.session.messages({ path: { id: sessionID } })
+          const messages = response.data ?? []
+          // A commit covering several queued turns carries one Opencode-Turn trailer per turn
+          const turns = commits.flatMap((commit): LastTurn[] => {
+            const turnIDs = commit.trailers.all
+              .filter((t) => t.key.toLowerCase() === TRAILER_TURN.toLowerCase())
+              .map((t) => t.value)
+            const found = turnIDs.map((id) => getTurnByID(messages, id)).filter((t): t is LastTurn => t !== null)
+            return found.length > 0 ? found : [{
+              userMessageID: turnIDs[0] ?? commit.sha,
+              userPrompt: commit.subject,
+              assistantResponse: "",
+              touchedFiles: [],
+              model: commit.trailers.model,
+              transcript: [],
+            }]
+          })
+          
+          const nameOutput = await $`git diff-tree -r -z --name-only ${base} ${head}`.quiet()
+          const files = nameOutput.stdout.toString().split("\0").filter((f) => f.length > 0)
+          let diff: StagedDiff | undefined
+          if (settings.summaryDiffBudget > 0) {
+            const stat = await $`git diff --stat ${base} ${head}`.quiet()
+            const patch = await $`git diff --no-color ${base} ${head}`.quiet()
+            diff = condenseDiff(stat.stdout.toString(), patch.stdout.toString(), settings.summaryDiffBudget)
+          }
+          
+          const { message: finalMessage, summary, model } = await composeCommitMessage(turns, sessionID, files, diff)
+          
+          // Build the squashed commit from HEAD's tree so the index and working tree stay as they are
+          const created = await $`git commit-tree ${`${head}^{tree}`} -p ${base} < ${new Response(finalMessage)}`.quiet()
+          const squashed = created.stdout.toString().trim()
+          await $`git update-ref -m ${"autocommit: squash session " + sessionID} HEAD ${squashed} ${head}`.quiet()
+          await attachTranscript(squashed, turns, sessionID)
+          
+          const squashedCommits = commits.map((c) => ({ sha: c.sha, subject: c.subject, turnID: c.trailers.turnID }))
+          
+          await client.app.log({
+            body: {
+              service: "opencode-autocommit",
+              level: "info",
+              message: "Squashed auto-commits",
+              extra: { sessionID, squashed: squashedCommits, head: squashed, summary, model: model ?? "default" },
+            },
+          })
+          
+          return JSON.stringify({ head: squashed, summary, squashed: squashedCommits }, null, 2)
+        })
+      } catch (error) {
+        throw new Error(`Failed to squash auto-commits: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const transcriptTool = tool({
+    description: "Print the full transcript of the turn(s) behind an auto-commit, stored in git notes when transcript is set to notes",
+    args: {
+      commit: toolSchema.schema.string().optional(),
+    },
+    async execute(args, _context) {
+      const rev = args.commit || "HEAD"
+      const sha = await resolveCommit($, rev)
+      if (!sha) {
+        throw new Error(`Failed to read transcript: ${rev} is not a commit`)
       }
       
-      const isInWorktree = await isWorktree($, worktree)
+      const transcript = await readTranscript($, sha)
+      if (transcript === null) {
+        throw new Error(`Failed to read transcript: no transcript stored for ${sha.slice(0, 7)} under ${NOTES_REF}`)
+      }
+      return transcript
+    },
+  })
+  
+  const listAutoCommitsTool = tool({
+    description: "List auto-commits reachable from HEAD, newest first, with the session, turn, prompt and summary of each. Filter by session, date (anything git log --since/--until accepts) and text in the prompt",
+    args: {
+      sessionID: toolSchema.schema.string().optional(),
+      since: toolSchema.schema.string().optional(),
+      until: toolSchema.schema.string().optional(),
+      prompt: toolSchema.schema.string().optional(),
+      limit: toolSchema.schema.number().optional(),
+    },
+    async execute(args, _context) {
+      try {
+        const commits = await findAutoCommits($, {
+          sessionID: args.sessionID || undefined,
+          since: args.since || undefined,
+          until: args.until || undefined,
+          prompt: args.prompt || undefined,
+          limit: args.limit ?? 20,
+        })
+        return JSON.stringify(commits, null, 2)
+      } catch (error) {
+        throw new Error(`Failed to list auto-commits: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const explainTool = tool({
+    description: "Explain which prompt produced a commit or a line: pass a commit (SHA or any revision) or path:line. Returns the commit's session, turn IDs, prompt, response and summary",
+    args: {
+      target: toolSchema.schema.string(),
+    },
+    async execute(args, _context) {
+      try {
+        // path:line is blamed; anything else is taken as a revision
+        const location = args.target.match(/^(.+):(\d+)$/)
+        let blamed: BlamedLine | undefined
+        let sha: string | null
+        
+        if (location) {
+          blamed = await blameLine($, location[1]!, parseInt(location[2]!))
+          if (/^0+$/.test(blamed.sha)) {
+            throw new Error(`${args.target} has uncommitted changes`)
+          }
+          sha = blamed.sha
+        } else {
+          sha = await resolveCommit($, args.target)
+          if (!sha) {
+            throw new Error(`${args.target} is not a commit or path:line`)
+          }
+        }
+        
+        const line = blamed ? { path: blamed.path, line: blamed.line, content: blamed.content } : undefined
+        const record = await readAutoCommit($, sha)
+        if (!record) {
+          const [commit] = await listCommits($, sha, 1)
+          return JSON.stringify({ sha, autoCommit: false, summary: commit?.subject ?? "", line }, null, 2)
+        }
+        
+        return JSON.stringify({ ...record, autoCommit: true, line }, null, 2)
+      } catch (error) {
+        throw new Error(`Failed to explain ${args.target}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const previewTool = tool({
+    description: "Preview the auto-commit(s) the current turn would produce, without staging or committing anything: the files, the diffstat and the exact commit message. Works in every mode, including disabled",
+    args: {
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      const sessionID = args.sessionID || context.sessionID
+      try {
+        const response = await client.session.messages({ path: { id: sessionID } })
+        const messages = response.data ?? []
+        // Peek at the turn's baseline; the commit on idle still needs it
+        const pending = baselines.get(sessionID)
+        const baseline = pending ? await pending.snapshot : null
+        
+        const batchStartID = deferred.get(sessionID)?.userMessageID ?? pending?.userMessageID
+        const turns = getPendingTurns(messages, (id) => state.hasTurn(sessionID, id), batchStartID)
+        const preview = turns.length > 0
+          ? await withRepoLock(() => previewTurn(sessionID, turns, baseline))
+          : { commits: [], blocked: [], skipped: "No turn to commit" }
+        
+        return JSON.stringify(
+          { mode: settings.mode, dryRun: settings.dryRun, guardrailPolicy: settings.guardrailPolicy, ...preview },
+          null,
+          2
+        )
+      } catch (error) {
+        throw new Error(`Failed to preview auto-commit: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const commitNowTool = tool({
+    description: "Commit the session's pending turns, including the current one, as a single commit as soon as the current turn ends, whatever the cadence setting",
+    args: {
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      const sessionID = args.sessionID || context.sessionID
+      if (settings.mode === "disabled") {
+        throw new Error("Failed to request a commit: auto-commit is disabled")
+      }
       
+      // The tool runs mid-turn, so committing now would leave out the rest of this turn's changes
+      commitRequests.add(sessionID)
+      const batch = deferred.get(sessionID)
       await client.app.log({
         body: {
           service: "opencode-autocommit",
           level: "info",
-          message: "Checked if in worktree",
-          extra: { isInWorktree, mode: settings.mode },
+          message: "Commit requested",
+          extra: { sessionID, cadence: settings.cadence, batchStartID: batch?.userMessageID },
         },
       })
-      
-      if (settings.mode === "worktree" && !isInWorktree) {
-        await client.app.log({
-          body: {
-            service: "opencode-autocommit",
-            level: "info",
-            message: "Not in worktree, skipping commit",
+      return batch
+        ? `The turns pending since ${batch.userMessageID} will be committed when the current turn ends`
+        : "The current turn will be committed when it ends"
+    },
+  })
+  
+  const checksTool = tool({
+    description: "Get the output of the gate checks (and commit hooks) from this session's latest auto-commit attempt, to fix what failed",
+    args: {
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      const sessionID = args.sessionID || context.sessionID
+      const { lastChecks } = state.read(sessionID)
+      if (!lastChecks) {
+        return `No checks have run for session ${sessionID}`
+      }
+      return JSON.stringify(lastChecks, null, 2)
+    },
+  })
+  
+  const listCheckpointsTool = tool({
+    description: "List the shadow-mode checkpoints of a session, newest first",
+    args: {
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      try {
+        const sessionID = args.sessionID || context.sessionID
+        const checkpoints = await listCheckpoints($, sessionID)
+        return JSON.stringify(
+          {
+            ref: shadowRef(sessionID),
+            checkpoints: checkpoints.map((c) => ({ sha: c.sha, subject: c.subject, turnID: c.trailers.turnID })),
           },
+          null,
+          2
+        )
+      } catch (error) {
+        throw new Error(`Failed to list checkpoints: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  const restoreCheckpointTool = tool({
+    description: "Restore the working tree to a shadow-mode checkpoint of a session (the latest by default). HEAD and the index are left as they are, and the current working tree is saved as a checkpoint first",
+    args: {
+      checkpoint: toolSchema.schema.string().optional(),
+      sessionID: toolSchema.schema.string().optional(),
+    },
+    async execute(args, context) {
+      try {
+        const sessionID = args.sessionID || context.sessionID
+        const ref = shadowRef(sessionID)
+        return await withRepoLock(async () => {
+          const checkpoints = await listCheckpoints($, sessionID)
+          if (checkpoints.length === 0) {
+            throw new Error(`Session ${sessionID} has no checkpoints`)
+          }
+          
+          let target = checkpoints[0]!
+          if (args.checkpoint) {
+            const sha = await resolveCommit($, args.checkpoint)
+            const found = checkpoints.find((c) => c.sha === sha)
+            if (!found) {
+              throw new Error(`${args.checkpoint} is not a checkpoint of session ${sessionID}`)
+            }
+            target = found
+          }
+          
+          const repoRoot = await getRepoRoot($)
+          const current = await snapshotWorkingTree($)
+          const removed = (await $`git diff-tree -r -z --no-renames --name-only --diff-filter=A ${target.sha} ${current.tree}`.quiet())
+            .stdout.toString().split("\0").filter((f) => f.length > 0)
+          
+          // Save the working tree first so the restore itself can be undone
+          let saved: string | undefined
+          const tip = checkpoints[0]!.sha
+          const tipTree = (await $`git rev-parse ${`${tip}^{tree}`}`.quiet()).stdout.toString().trim()
+          if (current.tree !== tipTree) {
+            const message = await addTrailers($, `Before restoring checkpoint ${target.sha.slice(0, 7)}`, [
+              { key: TRAILER_SESSION, value: sessionID },
+            ])
+            saved = await writeCheckpoint($, ref, current.tree, tip, null, message)
+          }
+          
+          await $`git restore --source=${target.sha} --worktree -- :/`.cwd(repoRoot).quiet()
+          for (const file of removed) {
+            fs.rmSync(path.join(repoRoot, file), { force: true })
+          }
+          
+          await client.app.log({
+            body: {
+              service: "opencode-autocommit",
+              level: "info",
+              message: "Restored checkpoint",
+              extra: { sessionID, checkpoint: target.sha, saved, removed },
+            },
+          })
+          
+          return JSON.stringify({ restored: target.sha, subject: target.subject, saved, removed }, null, 2)
         })
+      } catch (error) {
+        throw new Error(`Failed to restore checkpoint: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  })
+  
+  return {
+    dispose: async () => {
+      clearTimeout(settingsReloadTimer)
+      for (const watcher of settingsWatchers) watcher.close()
+      await settingsReload
+      
+      // Sessions end with the plugin too
+      for (const sessionID of [...deferred.keys()]) {
+        await commitDeferred(sessionID)
+      }
+      for (const sessionID of [...unpushed.keys()]) {
+        await withRepoLock(() => pushSession(sessionID))
+      }
+    },
+    
+    "chat.message": async (input, output) => {
+      if (isSyntheticMessage(output)) return
+      await recordBaseline(input.sessionID, output.message.id)
+    },
+    
+    event: async ({ event }) => {
+      if (event.type === "message.updated" && event.properties.info.role === "user") {
+        await recordBaseline(event.properties.info.sessionID, event.properties.info.id)
         return
       }
       
-      const { sessionID } = event.properties
+      if (event.type === "session.deleted") {
+        const sessionID = event.properties.info.id
+        await commitDeferred(sessionID)
+        commitRequests.delete(sessionID)
+        if (unpushed.has(sessionID)) {
+          await withRepoLock(() => pushSession(sessionID))
+        }
+        return
+      }
+      
+      if (event.type !== "session.idle") return
+      
+      const turnBaseline = await takeBaseline(event.properties.sessionID)
       
       await client.app.log({
         body: {
           service: "opencode-autocommit",
           level: "info",
-          message: "Fetching session messages",
-          extra: { sessionID },
+          message: "Session idle event received",
+          extra: { mode: settings.mode },
         },
       })
       
-      const response = await client.session.messages({ path: { id: sessionID } })
-      const messages = response.data ?? []
-      
-      const turn = getLastTurn(messages)
-      
-      if (!turn) {
-        await client.app.log({
-          body: {
-            service: "opencode-autocommit",
-            level: "info",
-            message: "No turn found in messages",
-          },
-        })
-        return
-      }
-      
-      if (turn.userMessageID === lastCommittedTurnID) {
+      if (settings.mode === "disabled") {
         await client.app.log({
           body: {
             service: "opencode-autocommit",
             level: "info",
-            message: "Turn already committed, skipping",
-            extra: { userMessageID: turn.userMessageID },
+            message: "Auto-commit disabled",
           },
         })
         return
       }
       
-      lastCommittedTurnID = turn.userMessageID
+      const isInWorktree = await isWorktree($, worktree)
       
       await client.app.log({
         body: {
           service: "opencode-autocommit",
           level: "info",
-          message: "Processing new turn",
-          extra: { userMessageID: turn.userMessageID },
+          message: "Checked if in worktree",
+          extra: { isInWorktree, mode: settings.mode },
         },
       })
       
-      const hasUncommittedChanges = await hasChanges($)
-      if (!hasUncommittedChanges) {
+      if (settings.mode === "worktree" && !isInWorktree) {
         await client.app.log({
           body: {
             service: "opencode-autocommit",
             level: "info",
-            message: "No changes to commit",
+            message: "Not in worktree, skipping commit",
           },
         })
         return
       }
       
-      await client.app.log({
-        body: {
-          service: "opencode-autocommit",
-          level: "info",
-          message: "Found uncommitted changes, generating commit summary",
-        },
-      })
+      const { sessionID } = event.properties
       
       try {
-        const summary = await generateCommitSummary(turn, settings, client)
-        
-        const commitMessage = `${summary}
-
-## User Prompt
-${turn.userPrompt}
-
-## LLM Response
-${turn.assistantResponse}`
-        
-        await client.app.log({
-          body: {
-            service: "opencode-autocommit",
-            level: "info",
-            message: "Created commit message",
-            extra: { summary, messageLength: commitMessage.length },
-          },
-        })
-        
-        const truncatedMessage = truncateCommitMessage(commitMessage, settings.maxCommitLength)
-        
-        const success = await makeCommit($, truncatedMessage, client)
-        
-        if (success) {
-          await client.app.log({
-            body: {
-              service: "opencode-autocommit",
-              level: "info",
-              message: "Committed changes successfully",
-              extra: { summary },
-            },
-          })
-        }
+        await withRepoLock(() => commitTurn(sessionID, turnBaseline))
       } catch (error) {
         await client.app.log({
           body: {
             service: "opencode-autocommit",
             level: "error",
             message: "Error during auto-commit",
-            extra: { error: error instanceof Error ? error.message : String(error) },
+            extra: { sessionID, error: error instanceof Error ? error.message : String(error) },
           },
         })
       }
@@ -537,6 +3014,17 @@ ${turn.assistantResponse}`
       setAutoCommitSettings: setSettingsTool,
       resetAutoCommitSettings: resetSettingsTool,
       initAutoCommit: initTool,
+      getAutoCommitTrailers: trailersTool,
+      undoAutoCommit: undoTool,
+      squashAutoCommits: squashTool,
+      listCheckpoints: listCheckpointsTool,
+      getAutoCommitChecks: checksTool,
+      getAutoCommitTranscript: transcriptTool,
+      listAutoCommits: listAutoCommitsTool,
+      explainAutoCommit: explainTool,
+      previewAutoCommit: previewTool,
+      commitNow: commitNowTool,
+      restoreCheckpoint: restoreCheckpointTool,
     },
   }
 }
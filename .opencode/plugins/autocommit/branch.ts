@@ -0,0 +1,91 @@
+import { z } from "zod"
+import type { PluginInput } from "@opencode-ai/plugin"
+
+type BunShell = PluginInput["$"]
+
+export const BRANCH_PLACEHOLDERS = ["slug", "sessionID"] as const
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g
+
+const MAX_TITLE_SLUG_LENGTH = 40
+
+export const ZBranchPattern = z
+  .string()
+  .superRefine((pattern, ctx) => {
+    const names = [...pattern.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]!)
+    for (const name of names) {
+      if (!(BRANCH_PLACEHOLDERS as readonly string[]).includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown placeholder {{${name}}}, expected one of: ${BRANCH_PLACEHOLDERS.map((p) => `{{${p}}}`).join(", ")}`,
+        })
+      }
+    }
+    // Without a session placeholder every session would share one branch
+    if (names.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Branch pattern must contain {{slug}} or {{sessionID}}",
+      })
+    }
+  })
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+// "<title>-<session id>", so branches are readable but never shared between sessions
+export function sessionSlug(sessionID: string, title: string | undefined): string {
+  const id = slugify(sessionID)
+  const titleSlug = slugify(title ?? "").slice(0, MAX_TITLE_SLUG_LENGTH).replace(/-+$/, "")
+  return titleSlug ? `${titleSlug}-${id}` : id
+}
+
+export function renderBranchName(pattern: string, values: Record<(typeof BRANCH_PLACEHOLDERS)[number], string>): string {
+  return pattern.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? values[name as keyof typeof values] : match
+  )
+}
+
+// Whether `pattern` could have named `branch`, so session branches are recognized even after a
+// restart has forgotten which session made them
+export function matchesBranchPattern(pattern: string, branch: string): boolean {
+  const source = pattern
+    .split(PLACEHOLDER_PATTERN)
+    // split() puts the placeholder names at odd indexes
+    .map((part, i) => (i % 2 === 1 ? ".+" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("")
+  return new RegExp(`^${source}$`).test(branch)
+}
+
+export async function getCurrentBranch($: BunShell): Promise<string | null> {
+  const result = await $`git symbolic-ref --quiet --short HEAD`.nothrow().quiet()
+  return result.exitCode === 0 ? result.stdout.toString().trim() : null
+}
+
+// Check out `branch`, creating it from `base` (HEAD by default) if needed. Uncommitted changes are
+// carried over; git refuses to switch when they would be overwritten.
+export async function switchToBranch(
+  $: BunShell,
+  branch: string,
+  base?: string
+): Promise<"current" | "created" | "switched"> {
+  const check = await $`git check-ref-format --branch ${branch}`.nothrow().quiet()
+  if (check.exitCode !== 0) {
+    throw new Error(`Invalid branch name: ${branch}`)
+  }
+
+  if ((await getCurrentBranch($)) === branch) return "current"
+
+  const exists = await $`git show-ref --verify --quiet ${`refs/heads/${branch}`}`.nothrow().quiet()
+  if (exists.exitCode === 0) {
+    await $`git switch --quiet ${branch}`.quiet()
+    return "switched"
+  }
+
+  await $`git switch --quiet --create ${branch} ${base ? [base] : []}`.quiet()
+  return "created"
+}
@@ -0,0 +1,84 @@
+import { z } from "zod"
+
+export const ZCheckFailurePolicy = z.enum(["skip", "mark"])
+
+export type CheckFailurePolicy = z.infer<typeof ZCheckFailurePolicy>
+
+export const CHECKS_FAILED_MARKER = "[checks-failed]"
+
+// Failures usually show up at the end of the output, so that is the part kept
+const MAX_CHECK_OUTPUT = 8000
+
+export interface CheckResult {
+  command: string
+  // null when the command was killed
+  exitCode: number | null
+  timedOut: boolean
+  durationMs: number
+  // Combined stdout and stderr, trimmed to the last MAX_CHECK_OUTPUT characters
+  output: string
+}
+
+export interface CheckReport {
+  time: number
+  turnIDs: string[]
+  outcome: "passed" | "committed-with-failures" | "skipped"
+  results: CheckResult[]
+}
+
+export function checkPassed(result: CheckResult): boolean {
+  return result.exitCode === 0 && !result.timedOut
+}
+
+export function trimOutput(output: string): string {
+  if (output.length <= MAX_CHECK_OUTPUT) return output
+  return `[... ${output.length - MAX_CHECK_OUTPUT} characters omitted]\n${output.slice(-MAX_CHECK_OUTPUT)}`
+}
+
+export function markChecksFailed(message: string): string {
+  return `${CHECKS_FAILED_MARKER} ${message}`
+}
+
+export async function runCheck(command: string, cwd: string, timeoutMs: number): Promise<CheckResult> {
+  const start = Date.now()
+  // Own process group, so a timeout also kills whatever the command started
+  const proc = Bun.spawn(["sh", "-c", command], { cwd, stdout: "pipe", stderr: "pipe", detached: true })
+
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    try {
+      process.kill(-proc.pid, "SIGKILL")
+    } catch {
+      proc.kill("SIGKILL")
+    }
+  }, timeoutMs)
+
+  try {
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ])
+    const output = `${stdout}${stderr}${timedOut ? `\n[timed out after ${timeoutMs}ms]` : ""}`
+
+    return {
+      command,
+      exitCode: proc.signalCode ? null : exitCode,
+      timedOut,
+      durationMs: Date.now() - start,
+      output: trimOutput(output),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Every check runs even after one fails, so the agent sees all problems at once
+export async function runChecks(commands: string[], cwd: string, timeoutMs: number): Promise<CheckResult[]> {
+  const results: CheckResult[] = []
+  for (const command of commands) {
+    results.push(await runCheck(command, cwd, timeoutMs))
+  }
+  return results
+}
@@ -0,0 +1,139 @@
+export interface StagedDiff {
+  stat: string
+  patch: string
+  // True when the patch had to be condensed to fit the budget
+  truncated: boolean
+}
+
+interface DiffHunk {
+  header: string
+  lines: string[]
+}
+
+interface FileDiff {
+  header: string[]
+  hunks: DiffHunk[]
+}
+
+// Header lines worth keeping when a patch is condensed; index and ---/+++ lines repeat the file name
+const KEPT_HEADER_LINE = /^(diff --git |new file mode|deleted file mode|rename from|rename to|Binary files )/
+
+function parsePatch(patch: string): FileDiff[] {
+  const files: FileDiff[] = []
+  let file: FileDiff | undefined
+  let hunk: DiffHunk | undefined
+
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      file = { header: [line], hunks: [] }
+      hunk = undefined
+      files.push(file)
+    } else if (!file) {
+      continue
+    } else if (line.startsWith("@@")) {
+      hunk = { header: line, lines: [] }
+      file.hunks.push(hunk)
+    } else if (hunk) {
+      hunk.lines.push(line)
+    } else {
+      file.header.push(line)
+    }
+  }
+
+  return files
+}
+
+function omittedMarker(count: number): string {
+  return `[... ${count} lines omitted]`
+}
+
+function condensePatch(patch: string, budget: number): string {
+  const files = parsePatch(patch)
+  const skeletons = files.map((f) => f.header.filter((l) => KEPT_HEADER_LINE.test(l)))
+
+  // File names and hunk headers come first; an omitted-lines marker is reserved for every hunk
+  const skeletonLength = files.reduce(
+    (total, file, i) =>
+      total +
+      skeletons[i]!.join("\n").length + 1 +
+      file.hunks.reduce((sum, h) => sum + h.header.length + 1 + omittedMarker(h.lines.length).length + 1, 0),
+    0
+  )
+
+  if (skeletonLength > budget) {
+    // Not even the hunk headers fit: list as many file names as possible
+    const kept: string[] = []
+    let used = 0
+    for (let i = 0; i < skeletons.length; i++) {
+      const entry = skeletons[i]!.join("\n")
+      const remaining = skeletons.length - i
+      const marker = `[... ${remaining} more files]`
+      if (used + entry.length + 1 + marker.length > budget) {
+        kept.push(marker)
+        break
+      }
+      kept.push(entry)
+      used += entry.length + 1
+    }
+    return kept.join("\n")
+  }
+
+  // Fill the remaining budget with hunk bodies, round-robin so every file gets its first hunk first
+  const included = files.map((f) => f.hunks.map(() => 0))
+  let left = budget - skeletonLength
+  const maxHunks = Math.max(0, ...files.map((f) => f.hunks.length))
+
+  for (let h = 0; h < maxHunks && left > 0; h++) {
+    for (let f = 0; f < files.length && left > 0; f++) {
+      const hunk = files[f]!.hunks[h]
+      if (!hunk) continue
+      for (const line of hunk.lines) {
+        if (line.length + 1 > left) break
+        included[f]![h]!++
+        left -= line.length + 1
+      }
+    }
+  }
+
+  const output: string[] = []
+  files.forEach((file, f) => {
+    output.push(...skeletons[f]!)
+    file.hunks.forEach((hunk, h) => {
+      const count = included[f]![h]!
+      output.push(hunk.header, ...hunk.lines.slice(0, count))
+      if (count < hunk.lines.length) {
+        output.push(omittedMarker(hunk.lines.length - count))
+      }
+    })
+  })
+  return output.join("\n")
+}
+
+function condenseStat(stat: string, budget: number): string {
+  if (stat.length <= budget) return stat
+
+  // Keep the "N files changed" summary line and as many per-file lines as fit
+  const lines = stat.trimEnd().split("\n")
+  const summary = lines.pop() ?? ""
+  const kept: string[] = []
+  let used = summary.length + 1
+  for (const line of lines) {
+    if (used + line.length + 1 > budget) break
+    kept.push(line)
+    used += line.length + 1
+  }
+  return [...kept, summary].join("\n")
+}
+
+// Fit a staged diff into a character budget for the summary prompt. Large patches are
+// reduced to file names and hunk headers, then filled with as many hunk lines as fit.
+export function condenseDiff(stat: string, patch: string, budget: number): StagedDiff {
+  const condensedStat = condenseStat(stat, Math.floor(budget / 2))
+  const patchBudget = budget - condensedStat.length
+
+  if (patch.length <= patchBudget) {
+    return { stat: condensedStat, patch, truncated: condensedStat !== stat }
+  }
+
+  return { stat: condensedStat, patch: condensePatch(patch, patchBudget), truncated: true }
+}
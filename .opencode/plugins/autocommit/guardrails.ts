@@ -0,0 +1,141 @@
+import { z } from "zod"
+import type { PluginInput } from "@opencode-ai/plugin"
+import { matchesPattern } from "./paths"
+
+type BunShell = PluginInput["$"]
+
+export const ZGuardrailPolicy = z.enum(["block", "unstage-offending", "warn"])
+
+export type GuardrailPolicy = z.infer<typeof ZGuardrailPolicy>
+
+// Patterns without a slash match the file name anywhere in the tree; a leading "!" re-allows
+// what an earlier pattern denied, and the last matching pattern wins
+export const DEFAULT_DENY_PATHS = [
+  ".env",
+  ".env.*",
+  "!.env.example",
+  "!.env.sample",
+  "!.env.template",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "id_rsa",
+  "id_dsa",
+  "id_ecdsa",
+  "id_ed25519",
+]
+
+export const SECRET_RULES: { name: string; pattern: RegExp }[] = [
+  { name: "AWS access key ID", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "AWS secret access key", pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}\b/i },
+  { name: "Private key", pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY( BLOCK)?-----/ },
+  { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/ },
+  { name: "GitLab token", pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/ },
+  { name: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: "Stripe secret key", pattern: /\b[sr]k_live_[0-9A-Za-z]{24,}\b/ },
+  { name: "Anthropic API key", pattern: /\bsk-ant-[A-Za-z0-9_-]{32,}\b/ },
+  { name: "OpenAI API key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20}T3BlbkFJ[A-Za-z0-9_-]{20,}\b/ },
+]
+
+export interface GuardrailOptions {
+  denyPaths: string[]
+  // Bytes; 0 disables the check
+  maxFileSize: number
+  secretScan: boolean
+}
+
+export interface GuardrailFinding {
+  path: string
+  reason: "denied-path" | "too-large" | "secret"
+  // Never includes the secret itself, so findings are safe to log
+  detail: string
+}
+
+export function isDeniedPath(file: string, patterns: string[]): boolean {
+  let denied = false
+  for (const raw of patterns) {
+    const negated = raw.startsWith("!")
+    if (matchesPattern(file, negated ? raw.slice(1) : raw)) {
+      denied = !negated
+    }
+  }
+  return denied
+}
+
+// Secrets on the added lines of a unified diff made with -U0, with their new line numbers
+export function findSecrets(patch: string): { rule: string; line: number }[] {
+  const found: { rule: string; line: number }[] = []
+  let line = 0
+
+  for (const text of patch.split("\n")) {
+    const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+    if (hunk) {
+      line = parseInt(hunk[1]!)
+      continue
+    }
+    if (!text.startsWith("+") || text.startsWith("+++")) continue
+
+    for (const rule of SECRET_RULES) {
+      if (rule.pattern.test(text)) found.push({ rule: rule.name, line })
+    }
+    line++
+  }
+
+  return found
+}
+
+// Files in the index that differ from HEAD, limited to `paths` when given
+export async function listStagedFiles(
+  $: BunShell,
+  repoRoot: string,
+  env: Record<string, string>,
+  paths: string[] | null,
+  includeDeleted = true
+): Promise<string[]> {
+  const pathspec = paths ? ["--", ...paths] : []
+  const filter = includeDeleted ? [] : ["--diff-filter=d"]
+  const result = await $`git --literal-pathspecs diff --cached --name-only -z --no-renames ${filter} ${pathspec}`
+    .cwd(repoRoot)
+    .env(env)
+    .quiet()
+  return result.stdout.toString().split("\0").filter((f) => f.length > 0)
+}
+
+export async function scanStagedFiles(
+  $: BunShell,
+  repoRoot: string,
+  env: Record<string, string>,
+  paths: string[] | null,
+  options: GuardrailOptions
+): Promise<GuardrailFinding[]> {
+  const findings: GuardrailFinding[] = []
+
+  for (const file of await listStagedFiles($, repoRoot, env, paths, false)) {
+    if (isDeniedPath(file, options.denyPaths)) {
+      findings.push({ path: file, reason: "denied-path", detail: "matches denyPaths" })
+      continue
+    }
+
+    if (options.maxFileSize > 0) {
+      const size = await $`git cat-file -s ${`:${file}`}`.cwd(repoRoot).env(env).quiet()
+      const bytes = parseInt(size.stdout.toString().trim())
+      if (bytes > options.maxFileSize) {
+        findings.push({ path: file, reason: "too-large", detail: `${bytes} bytes exceeds maxFileSize of ${options.maxFileSize}` })
+        continue
+      }
+    }
+
+    if (options.secretScan) {
+      const patch = await $`git --literal-pathspecs diff --cached -U0 --no-color --no-ext-diff -- ${file}`.cwd(repoRoot).env(env).quiet()
+      const secrets = findSecrets(patch.stdout.toString())
+      if (secrets.length > 0) {
+        const detail = secrets.map((s) => `${s.rule} on line ${s.line}`).join(", ")
+        findings.push({ path: file, reason: "secret", detail })
+      }
+    }
+  }
+
+  return findings
+}
@@ -0,0 +1,55 @@
+import type { PluginInput } from "@opencode-ai/plugin"
+import { TRAILER_SESSION, parseTrailerLines, type AutoCommitTrailers } from "./trailers"
+
+type BunShell = PluginInput["$"]
+
+export interface CommitInfo {
+  sha: string
+  parents: string[]
+  subject: string
+  trailers: AutoCommitTrailers
+}
+
+const FIELD = "\x1f"
+const RECORD = "\x1e"
+
+// Walk first-parent history from `rev`, newest first
+export async function listCommits($: BunShell, rev: string, limit?: number): Promise<CommitInfo[]> {
+  const format = ["%H", "%P", "%s", "%(trailers:only,unfold)"].join("%x1f") + "%x1e"
+  const limitArgs = limit !== undefined ? [`--max-count=${limit}`] : []
+  const result = await $`git log --first-parent ${limitArgs} --format=${format} --end-of-options ${rev} --`.quiet()
+
+  return result.stdout
+    .toString()
+    .split(RECORD)
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [sha = "", parents = "", subject = "", trailers = ""] = record.split(FIELD)
+      return {
+        sha,
+        parents: parents.split(" ").filter((p) => p.length > 0),
+        subject,
+        trailers: parseTrailerLines(trailers),
+      }
+    })
+}
+
+export async function isPushed($: BunShell, sha: string): Promise<boolean> {
+  const result = await $`git for-each-ref --contains ${sha} --format=${"%(refname)"} refs/remotes`.quiet()
+  return result.stdout.toString().trim().length > 0
+}
+
+// Every first-parent commit reachable from `rev` whose Opencode-Session trailer names the session, newest first
+export async function listSessionCommits($: BunShell, sessionID: string, rev = "HEAD"): Promise<CommitInfo[]> {
+  const escaped = sessionID.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const result = await $`git log --first-parent --extended-regexp --format=%H ${`--grep=^${TRAILER_SESSION}: ${escaped}$`} --end-of-options ${rev} --`.quiet()
+  const shas = result.stdout.toString().split("\n").filter((l) => l.length > 0)
+
+  const commits: CommitInfo[] = []
+  for (const sha of shas) {
+    const [commit] = await listCommits($, sha, 1)
+    if (commit?.trailers.sessionID === sessionID) commits.push(commit)
+  }
+  return commits
+}
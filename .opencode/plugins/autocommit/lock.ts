@@ -0,0 +1,102 @@
+import * as fs from "node:fs"
+
+const LOCK_RETRY_MS = 100
+
+// A lock older than this, or than the wait for it if that is longer, is taken over even if its
+// owner still seems alive (e.g. a reused pid)
+const LOCK_STALE_MS = 15 * 60 * 1000
+
+export interface RepoLock {
+  run<T>(fn: () => Promise<T>): Promise<T>
+  // Tells waiting processes the holder is still making progress, which restarts their timeout.
+  // Does nothing unless this lock is held.
+  refresh(): void
+}
+
+function isStale(lockPath: string, staleMs: number): boolean {
+  try {
+    const stat = fs.statSync(lockPath)
+    if (Date.now() - stat.mtimeMs > staleMs) return true
+
+    const { pid } = JSON.parse(fs.readFileSync(lockPath, "utf8")) as { pid?: number }
+    if (typeof pid !== "number") return false
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(pid, 0)
+      return false
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === "ESRCH"
+    }
+  } catch {
+    // Released (or still being written) between our attempts
+    return false
+  }
+}
+
+// When the lock was taken or last refreshed, or 0 once it is gone
+function lastRefreshed(lockPath: string): number {
+  try {
+    return fs.statSync(lockPath).mtimeMs
+  } catch {
+    return 0
+  }
+}
+
+async function acquire(lockPath: string, timeoutMs: number): Promise<void> {
+  const start = Date.now()
+
+  while (true) {
+    try {
+      const fd = fs.openSync(lockPath, "wx")
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, time: Date.now() }))
+      fs.closeSync(fd)
+      return
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+    }
+
+    if (isStale(lockPath, Math.max(LOCK_STALE_MS, timeoutMs))) {
+      fs.rmSync(lockPath, { force: true })
+      continue
+    }
+    // The wait runs out only when the holder has gone `timeoutMs` without taking a step
+    if (Date.now() > Math.max(start, lastRefreshed(lockPath)) + timeoutMs) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`)
+    }
+    await Bun.sleep(LOCK_RETRY_MS)
+  }
+}
+
+// Serializes work on a repository: callers in this process queue up in order, and other
+// processes are kept out by an exclusive lock file. A timeout function is read on each run, so
+// it can follow settings that change.
+export function createRepoLock(lockPath: string, timeoutMs: number | (() => number)): RepoLock {
+  let queue: Promise<unknown> = Promise.resolve()
+  let held = false
+
+  return {
+    run<T>(fn: () => Promise<T>): Promise<T> {
+      const result = queue.then(async () => {
+        await acquire(lockPath, typeof timeoutMs === "function" ? timeoutMs() : timeoutMs)
+        held = true
+        try {
+          return await fn()
+        } finally {
+          held = false
+          fs.rmSync(lockPath, { force: true })
+        }
+      })
+      queue = result.catch(() => {})
+      return result
+    },
+    refresh() {
+      if (!held) return
+      const now = new Date()
+      try {
+        fs.utimesSync(lockPath, now, now)
+      } catch {
+        // Taken over as stale; the holder finds out when it next touches the repository
+      }
+    },
+  }
+}
@@ -0,0 +1,240 @@
+import { z } from "zod"
+import * as path from "node:path"
+import type { StagedDiff } from "./diff"
+
+export const ZMessageFormat = z.enum(["plain", "conventional", "template"])
+
+export type MessageFormat = z.infer<typeof ZMessageFormat>
+
+// Which of the turn's prompt and response the commit message includes
+export const ZMessageSections = z.enum(["both", "prompt", "response", "none"])
+
+export type MessageSections = z.infer<typeof ZMessageSections>
+
+export const TEMPLATE_PLACEHOLDERS = ["summary", "prompt", "response", "files", "sessionID", "turnID", "model"] as const
+
+type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g
+
+export const ZMessageTemplate = z
+  .string()
+  .refine((template) => template.trim().length > 0, { message: "Message template is empty" })
+  .superRefine((template, ctx) => {
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+      const name = match[1]!
+      if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown placeholder {{${name}}}, expected one of: ${TEMPLATE_PLACEHOLDERS.map((p) => `{{${p}}}`).join(", ")}`,
+        })
+      }
+    }
+  })
+
+export const CONVENTIONAL_TYPES = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "chore",
+  "revert",
+] as const
+
+const CONVENTIONAL_HEADER = new RegExp(`^(${CONVENTIONAL_TYPES.join("|")})(\\([\\w./-]+\\))?!?: \\S.*$`)
+
+// commitlint's config-conventional limits body lines to 100 characters
+const CONVENTIONAL_BODY_LINE_LENGTH = 100
+
+const PROMPT_EXCERPT_LENGTH = 200
+
+export interface CommitMessageContext {
+  summary: string
+  prompt: string
+  response: string
+  files: string[]
+  sessionID: string
+  turnID: string
+  model?: string
+  // Body holds only a prompt excerpt, because the full transcript is stored elsewhere
+  compact?: boolean
+  // Default: both
+  sections?: MessageSections
+}
+
+export async function loadMessageTemplate(directory: string, templatePath: string): Promise<string> {
+  const resolved = path.resolve(directory, templatePath)
+  const file = Bun.file(resolved)
+
+  if (!(await file.exists())) {
+    throw new Error(`Message template not found: ${resolved}`)
+  }
+
+  const result = ZMessageTemplate.safeParse(await file.text())
+  if (!result.success) {
+    throw new Error(`Invalid message template ${resolved}: ${result.error.issues.map((i) => i.message).join("; ")}`)
+  }
+  return result.data
+}
+
+function describeChanges(files: string[], diff: StagedDiff | undefined): string {
+  const changedFiles = `Changed files:\n${files.length > 0 ? files.map((f) => `- ${f}`).join("\n") : "(none)"}`
+  if (!diff) return changedFiles
+
+  const note = diff.truncated ? " (condensed: some lines were omitted)" : ""
+  return `${changedFiles}
+
+Diff stat:
+${diff.stat.trimEnd()}
+
+Diff${note}:
+${diff.patch.trimEnd()}`
+}
+
+export function buildSummaryPrompt(
+  format: MessageFormat,
+  turn: { userPrompt: string; assistantResponse: string },
+  files: string[],
+  diff?: StagedDiff
+): string {
+  const changes = describeChanges(files, diff)
+  const focus = diff ? "\nDescribe what the diff actually changes, not what the response claims.\n" : ""
+
+  if (format === "conventional") {
+    return `Generate a Conventional Commits header for this turn, in the form "type(scope): subject".
+
+- type is one of: ${CONVENTIONAL_TYPES.join(", ")}
+- scope is optional: a short lowercase name for the area of the code that changed, inferred from the changed files
+- subject is imperative, lowercase, without a trailing period
+- the whole header is at most 72 characters
+
+User prompt: ${turn.userPrompt}
+
+LLM response: ${turn.assistantResponse}
+
+${changes}
+${focus}
+Return ONLY the header, nothing else.`
+  }
+
+  return `Generate a one-line commit message (max 50 characters) for this turn.
+
+User prompt: ${turn.userPrompt}
+
+LLM response: ${turn.assistantResponse}
+
+${changes}
+${focus}
+Return ONLY the commit message, nothing else.`
+}
+
+function inferConventionalType(files: string[]): string {
+  if (files.length === 0) return "chore"
+  if (files.every((f) => /(^|\/)(test|tests|__tests__)\/|\.(test|spec)\.\w+$/.test(f))) return "test"
+  if (files.every((f) => /\.(md|mdx|txt|rst)$/i.test(f) || f.startsWith("docs/"))) return "docs"
+  return "chore"
+}
+
+export function normalizeConventionalSummary(summary: string, files: string[]): string {
+  const firstLine = (summary.split("\n").find((l) => l.trim().length > 0) ?? "")
+    .trim()
+    .replace(/^["'`]+|["'`]+$/g, "")
+    .replace(/\.$/, "")
+
+  if (CONVENTIONAL_HEADER.test(firstLine)) {
+    const separator = firstLine.indexOf(": ")
+    const subject = firstLine.slice(separator + 2)
+    return `${firstLine.slice(0, separator + 2)}${subject.charAt(0).toLowerCase()}${subject.slice(1)}`
+  }
+
+  const subject = firstLine || "auto-commit"
+  return `${inferConventionalType(files)}: ${subject.charAt(0).toLowerCase()}${subject.slice(1)}`
+}
+
+function wrapLine(line: string, width: number): string[] {
+  if (line.length <= width) return [line]
+
+  const wrapped: string[] = []
+  let current = ""
+  for (const word of line.split(" ")) {
+    if (current && current.length + 1 + word.length > width) {
+      wrapped.push(current)
+      current = ""
+    }
+    current = current ? `${current} ${word}` : word
+    // Break words that are longer than a whole line
+    while (current.length > width) {
+      wrapped.push(current.slice(0, width))
+      current = current.slice(width)
+    }
+  }
+  wrapped.push(current)
+  return wrapped
+}
+
+export function promptExcerpt(prompt: string): string {
+  const flat = prompt.replace(/\s+/g, " ").trim()
+  if (flat.length <= PROMPT_EXCERPT_LENGTH) return flat
+  return `${flat.slice(0, PROMPT_EXCERPT_LENGTH - 3).trimEnd()}...`
+}
+
+function includesPrompt(context: CommitMessageContext): boolean {
+  return context.sections === undefined || context.sections === "both" || context.sections === "prompt"
+}
+
+function includesResponse(context: CommitMessageContext): boolean {
+  return context.sections === undefined || context.sections === "both" || context.sections === "response"
+}
+
+// Empty when every section is left out
+function defaultBody(context: CommitMessageContext): string {
+  if (context.compact) return includesPrompt(context) ? `Prompt: ${promptExcerpt(context.prompt)}` : ""
+
+  const sections: string[] = []
+  if (includesPrompt(context)) sections.push(`## User Prompt\n${context.prompt}`)
+  if (includesResponse(context)) sections.push(`## LLM Response\n${context.response}`)
+  return sections.join("\n\n")
+}
+
+export function renderTemplate(template: string, context: CommitMessageContext): string {
+  const values: Record<TemplatePlaceholder, string> = {
+    summary: context.summary,
+    prompt: includesPrompt(context) ? context.prompt : "",
+    response: includesResponse(context) ? context.response : "",
+    files: context.files.map((f) => `- ${f}`).join("\n"),
+    sessionID: context.sessionID,
+    turnID: context.turnID,
+    model: context.model ?? "default",
+  }
+
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? values[name as TemplatePlaceholder] : match
+  )
+}
+
+export function formatCommitMessage(
+  format: MessageFormat,
+  context: CommitMessageContext,
+  template?: string
+): string {
+  if (format === "template" && template !== undefined) {
+    return renderTemplate(template, context).trim()
+  }
+
+  if (format === "conventional") {
+    const header = normalizeConventionalSummary(context.summary, context.files)
+    const body = defaultBody(context)
+      .split("\n")
+      .flatMap((line) => wrapLine(line, CONVENTIONAL_BODY_LINE_LENGTH))
+      .join("\n")
+    return body ? `${header}\n\n${body}` : header
+  }
+
+  const body = defaultBody(context)
+  return body ? `${context.summary}\n\n${body}` : context.summary
+}
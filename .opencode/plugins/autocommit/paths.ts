@@ -0,0 +1,47 @@
+import * as path from "node:path"
+
+// Patterns without a slash match the file name anywhere in the tree; the others match the path
+// from the repository root
+export function matchesPattern(file: string, pattern: string): boolean {
+  const subject = pattern.includes("/") ? file : path.posix.basename(file)
+  return new Bun.Glob(pattern.replace(/^\//, "")).match(subject)
+}
+
+export function matchesAny(file: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesPattern(file, pattern))
+}
+
+// An empty include list includes everything; exclude wins over include
+export function isIncludedPath(file: string, include: string[], exclude: string[]): boolean {
+  if (include.length > 0 && !matchesAny(file, include)) return false
+  return !matchesAny(file, exclude)
+}
+
+// The directory a file's path group is named after: the shortest leading directory of the file
+// that one of the patterns matches, trying patterns in order. null when no pattern matches.
+export function pathGroupOf(file: string, patterns: string[]): string | null {
+  const dirs = file.split("/").slice(0, -1)
+
+  for (const raw of patterns) {
+    const glob = new Bun.Glob(raw.replace(/^\//, "").replace(/\/+$/, ""))
+    for (let depth = 1; depth <= dirs.length; depth++) {
+      const prefix = dirs.slice(0, depth).join("/")
+      if (glob.match(prefix)) return prefix
+    }
+  }
+  return null
+}
+
+// Groups files by path group, in order of first appearance, with the files outside every group last
+export function groupByPath<T>(items: T[], pathOf: (item: T) => string, patterns: string[]): { group: string | null; items: T[] }[] {
+  const groups = new Map<string | null, T[]>()
+  for (const item of items) {
+    const group = pathGroupOf(pathOf(item), patterns)
+    groups.set(group, [...(groups.get(group) ?? []), item])
+  }
+
+  const ungrouped = groups.get(null)
+  groups.delete(null)
+  const result = [...groups].map(([group, items]) => ({ group, items }))
+  return ungrouped ? [...result, { group: null, items: ungrouped }] : result
+}
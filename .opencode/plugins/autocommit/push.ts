@@ -0,0 +1,57 @@
+import { z } from "zod"
+import * as os from "node:os"
+import * as path from "node:path"
+import * as fs from "node:fs"
+import type { PluginInput } from "@opencode-ai/plugin"
+
+type BunShell = PluginInput["$"]
+
+export const ZPushMode = z.enum(["never", "per-turn", "every-n-commits", "on-session-end"])
+
+export type PushMode = z.infer<typeof ZPushMode>
+
+export interface PushResult {
+  pushed: boolean
+  // The remote has commits the local branch doesn't
+  rejected: boolean
+  output: string
+}
+
+export function isProtectedBranch(branch: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => new Bun.Glob(pattern).match(branch))
+}
+
+export async function pushBranch($: BunShell, remote: string, branch: string): Promise<PushResult> {
+  const ref = `refs/heads/${branch}`
+  const result = await $`git push --porcelain ${remote} ${`${ref}:${ref}`}`.nothrow().quiet()
+  const output = `${result.stdout.toString()}${result.stderr.toString()}`.trim()
+
+  // --porcelain flags a rejected ref with "!" and names the reason, e.g. "[rejected] (fetch first)"
+  const rejected = result.exitCode !== 0 && /^!\t.*\[rejected\] \((non-fast-forward|fetch first)\)/m.test(output)
+  return { pushed: result.exitCode === 0, rejected, output }
+}
+
+export async function fetchBranch($: BunShell, remote: string, branch: string): Promise<string> {
+  await $`git fetch --quiet ${remote} ${`refs/heads/${branch}`}`.quiet()
+  const result = await $`git rev-parse FETCH_HEAD`.quiet()
+  return result.stdout.toString().trim()
+}
+
+// Replays `commits` (oldest first) on top of `base` and returns the new tip. The work happens in a
+// throwaway worktree, so the user's working tree and index are untouched, even on a conflict.
+export async function replayCommits($: BunShell, base: string, commits: string[]): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "opencode-autocommit-rebase-"))
+  try {
+    await $`git worktree add --quiet --detach ${dir} ${base}`.quiet()
+    const picked = await $`git cherry-pick --allow-empty ${commits}`.cwd(dir).nothrow().quiet()
+    if (picked.exitCode !== 0) {
+      await $`git cherry-pick --abort`.cwd(dir).nothrow().quiet()
+      throw new Error(`Could not rebase onto the remote: ${`${picked.stdout.toString()}${picked.stderr.toString()}`.trim()}`)
+    }
+    const tip = await $`git rev-parse HEAD`.cwd(dir).quiet()
+    return tip.stdout.toString().trim()
+  } finally {
+    await $`git worktree remove --force ${dir}`.nothrow().quiet()
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,137 @@
+import type { PluginInput } from "@opencode-ai/plugin"
+import { TRAILER_SESSION, TRAILER_TURN, parseTrailerLines } from "./trailers"
+import { readTranscript } from "./transcript"
+
+type BunShell = PluginInput["$"]
+
+const FIELD = "\x1f"
+const RECORD = "\x1e"
+
+export interface AutoCommitRecord {
+  sha: string
+  // Author date, ISO 8601
+  date: string
+  summary: string
+  sessionID: string
+  turnIDs: string[]
+  model?: string
+  prompt: string
+  response: string
+  // Where prompt and response were read from: the full transcript in git notes, the
+  // "## User Prompt" / "## LLM Response" sections of the message, or the message's prompt excerpt
+  source: "notes" | "message" | "excerpt" | "none"
+}
+
+export interface AutoCommitFilter {
+  sessionID?: string
+  // Anything `git log --since` / `--until` accepts, e.g. "2 days ago" or "2025-01-31"
+  since?: string
+  until?: string
+  // Case-insensitive text to look for in the prompt
+  prompt?: string
+  limit?: number
+}
+
+// The message without its trailing trailer block
+function stripTrailers(message: string, trailerCount: number): string {
+  const trimmed = message.trimEnd()
+  if (trailerCount === 0) return trimmed
+  const lastParagraph = trimmed.lastIndexOf("\n\n")
+  return lastParagraph >= 0 ? trimmed.slice(0, lastParagraph) : trimmed
+}
+
+// Prompt and response from the commit message formats the plugin writes
+export function parseCommitMessage(message: string): { prompt: string; response: string; source: AutoCommitRecord["source"] } {
+  const sections = message.match(/(?:^|\n)## User Prompt\n([\s\S]*?)(?:\n\n## LLM Response\n([\s\S]*))?$/)
+  if (sections) {
+    return { prompt: sections[1]!.trim(), response: (sections[2] ?? "").trim(), source: "message" }
+  }
+
+  const excerpt = message.match(/^Prompt: (.*)$/m)
+  if (excerpt) {
+    return { prompt: excerpt[1]!.trim(), response: "", source: "excerpt" }
+  }
+
+  return { prompt: "", response: "", source: "none" }
+}
+
+// Prompt and response of every turn in a transcript note, joined in order
+export function parseTranscriptNote(note: string): { prompt: string; response: string } {
+  const turns = note
+    .split(/^## Turn .*$/m)
+    .slice(1)
+    .map((section) => section.match(/(?:^|\n)### User\n([\s\S]*?)\n\n### Assistant\n([\s\S]*)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+
+  return {
+    prompt: turns.map((m) => m[1]!.trim()).join("\n\n"),
+    response: turns.map((m) => m[2]!.trim()).join("\n\n"),
+  }
+}
+
+async function toRecord($: BunShell, raw: string): Promise<AutoCommitRecord | null> {
+  const [sha = "", date = "", subject = "", trailerText = "", message = ""] = raw.split(FIELD)
+  const trailers = parseTrailerLines(trailerText)
+  if (!trailers.sessionID) return null
+
+  const turnIDs = trailers.all.filter((t) => t.key.toLowerCase() === TRAILER_TURN.toLowerCase()).map((t) => t.value)
+  const base = { sha, date, summary: subject, sessionID: trailers.sessionID, turnIDs, model: trailers.model }
+
+  const note = await readTranscript($, sha)
+  if (note !== null) {
+    return { ...base, ...parseTranscriptNote(note), source: "notes" }
+  }
+  return { ...base, ...parseCommitMessage(stripTrailers(message, trailers.all.length)) }
+}
+
+const LOG_FORMAT = ["%H", "%aI", "%s", "%(trailers:only,unfold)", "%B"].join("%x1f") + "%x1e"
+
+// Auto-commits reachable from HEAD, newest first
+export async function findAutoCommits($: BunShell, filter: AutoCommitFilter = {}): Promise<AutoCommitRecord[]> {
+  const session = filter.sessionID ? filter.sessionID.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : ".+"
+  const dateArgs = [
+    ...(filter.since ? [`--since=${filter.since}`] : []),
+    ...(filter.until ? [`--until=${filter.until}`] : []),
+  ]
+  const result = await $`git log --extended-regexp ${`--grep=^${TRAILER_SESSION}: ${session}$`} ${dateArgs} --format=${LOG_FORMAT} HEAD --`
+    .nothrow()
+    .quiet()
+  // A repository without commits has no history to search
+  if (result.exitCode !== 0) return []
+
+  const needle = filter.prompt?.toLowerCase()
+  const records: AutoCommitRecord[] = []
+  for (const raw of result.stdout.toString().split(RECORD)) {
+    if (filter.limit !== undefined && records.length >= filter.limit) break
+    if (raw.trim().length === 0) continue
+
+    const record = await toRecord($, raw.replace(/^\n/, ""))
+    if (!record) continue
+    if (filter.sessionID && record.sessionID !== filter.sessionID) continue
+    if (needle && !record.prompt.toLowerCase().includes(needle)) continue
+    records.push(record)
+  }
+  return records
+}
+
+// null when `sha` is not an auto-commit
+export async function readAutoCommit($: BunShell, sha: string): Promise<AutoCommitRecord | null> {
+  const result = await $`git log -1 --format=${LOG_FORMAT} ${sha} --`.quiet()
+  return toRecord($, result.stdout.toString().replace(new RegExp(`${RECORD}\\n?$`), ""))
+}
+
+export interface BlamedLine {
+  // All zeros when the line is not committed yet
+  sha: string
+  path: string
+  line: number
+  content: string
+}
+
+export async function blameLine($: BunShell, file: string, line: number): Promise<BlamedLine> {
+  const result = await $`git blame --porcelain -L ${`${line},${line}`} -- ${file}`.quiet()
+  const lines = result.stdout.toString().split("\n")
+  const sha = lines[0]!.split(" ")[0]!
+  const content = lines.find((l) => l.startsWith("\t"))?.slice(1) ?? ""
+  return { sha, path: file, line, content }
+}
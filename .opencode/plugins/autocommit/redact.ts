@@ -0,0 +1,76 @@
+import { z } from "zod"
+import { SECRET_RULES } from "./guardrails"
+
+export const ZRedactPattern = z.enum(["email", "token", "ip", "url"])
+
+export type RedactPattern = z.infer<typeof ZRedactPattern>
+
+// A JavaScript regular expression, matched case-sensitively everywhere in the text
+export const ZRedactRegex = z
+  .string()
+  .min(1)
+  .superRefine((source, ctx) => {
+    try {
+      new RegExp(source)
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      })
+    }
+  })
+
+export interface RedactionRule {
+  // Built-in pattern name, or null for a custom regex
+  name: RedactPattern | null
+  pattern: RegExp
+}
+
+function withGlobalFlag(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`)
+}
+
+// Tokens run first, so credentials inside URLs are named as tokens
+const BUILTIN_ORDER: RedactPattern[] = ["token", "url", "email", "ip"]
+
+const BUILTIN_PATTERNS: Record<RedactPattern, RegExp[]> = {
+  token: [
+    // The whole key, not just the header guardrails look for
+    /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/g,
+    ...SECRET_RULES.map((rule) => withGlobalFlag(rule.pattern)),
+    /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+    /\b(?:api[_-]?key|access[_-]?token|auth[_-]?token|secret|password|passwd|token)["']?\s*[:=]\s*["']?[^\s"',;]+/gi,
+  ],
+  url: [/\b[a-z][a-z0-9+.-]*:\/\/[^\s<>"'`)\]]+/gi],
+  email: [/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g],
+  ip: [
+    /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi,
+  ],
+}
+
+export function buildRedactionRules(patterns: RedactPattern[], regexes: string[]): RedactionRule[] {
+  const builtins = BUILTIN_ORDER.filter((name) => patterns.includes(name)).flatMap((name) =>
+    BUILTIN_PATTERNS[name].map((pattern) => ({ name, pattern }))
+  )
+  const custom = regexes.map((source) => ({ name: null, pattern: new RegExp(source, "g") }))
+  return [...builtins, ...custom]
+}
+
+export function redactText(text: string, rules: RedactionRule[]): string {
+  return rules.reduce(
+    (result, rule) => result.replace(rule.pattern, rule.name ? `[REDACTED:${rule.name}]` : "[REDACTED]"),
+    text
+  )
+}
+
+// Redacts every string in a JSON-like value, leaving its shape as it is
+export function redactValue<T>(value: T, rules: RedactionRule[]): T {
+  if (rules.length === 0) return value
+  if (typeof value === "string") return redactText(value, rules) as T
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, rules)) as T
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, rules)])) as T
+  }
+  return value
+}
@@ -0,0 +1,209 @@
+import { z } from "zod"
+import * as yaml from "yaml"
+import * as os from "node:os"
+import * as path from "node:path"
+import * as fs from "node:fs"
+
+export const SETTINGS_FILE = ".opencode/auto-commit.settings.yml"
+
+// Lives in the worktree's own git dir, so it is never committed and each worktree has its own
+export const WORKTREE_SETTINGS_FILE = "opencode-autocommit.settings.yml"
+
+export const ENV_PREFIX = "OPENCODE_AUTOCOMMIT_"
+
+// Later layers override earlier ones
+export const SETTINGS_LAYERS = ["global", "repo", "worktree", "env"] as const
+
+export type SettingsLayerName = (typeof SETTINGS_LAYERS)[number]
+
+// "set" marks values changed at runtime with /setAutoCommitSettings
+export type SettingsSource = "default" | SettingsLayerName | "set"
+
+// Where /setAutoCommitSettings writes: "session" only changes the running plugin
+export const ZSettingsScope = z.enum(["session", "repo", "worktree", "global"])
+
+export type SettingsScope = z.infer<typeof ZSettingsScope>
+
+export interface SettingsLayer<T> {
+  name: SettingsLayerName
+  // File path, or "environment"
+  location: string
+  found: boolean
+  // Only the keys that passed validation
+  values: Partial<T>
+  errors: string[]
+}
+
+export function globalSettingsPath(env: NodeJS.ProcessEnv = process.env): string {
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config")
+  return path.join(configHome, "opencode", "auto-commit.settings.yml")
+}
+
+// maxCommitLength -> OPENCODE_AUTOCOMMIT_MAX_COMMIT_LENGTH
+export function envVarName(key: string): string {
+  return `${ENV_PREFIX}${key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()}`
+}
+
+function formatIssue(issue: z.ZodIssue, describeKey: (key: string) => string): string {
+  const [key, ...rest] = issue.path
+  if (key === undefined) return issue.message
+  const location = [describeKey(String(key)), ...rest].join(".")
+  return `${location}: ${issue.message}`
+}
+
+// Validates each key on its own, so one bad value doesn't take the rest of the layer down with it
+export function validateLayer<S extends z.AnyZodObject>(
+  schema: S,
+  raw: unknown,
+  describeKey: (key: string) => string = (key) => key
+): { values: Partial<z.infer<S>>; errors: string[] } {
+  if (raw === null || raw === undefined) return { values: {}, errors: [] }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { values: {}, errors: ["expected a mapping of setting names to values"] }
+  }
+
+  const values: Record<string, unknown> = {}
+  const errors: string[] = []
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = schema.shape[key] as z.ZodTypeAny | undefined
+    if (!field) {
+      errors.push(`${describeKey(key)}: unknown setting`)
+      continue
+    }
+
+    const result = field.safeParse(value)
+    if (result.success) {
+      values[key] = result.data
+    } else {
+      errors.push(...result.error.issues.map((issue) => formatIssue({ ...issue, path: [key, ...issue.path] }, describeKey)))
+    }
+  }
+
+  return { values: values as Partial<z.infer<S>>, errors }
+}
+
+export async function readFileLayer<S extends z.AnyZodObject>(
+  schema: S,
+  name: SettingsLayerName,
+  file: string
+): Promise<SettingsLayer<z.infer<S>>> {
+  if (!fs.existsSync(file)) {
+    return { name, location: file, found: false, values: {}, errors: [] }
+  }
+
+  let raw: unknown
+  try {
+    raw = yaml.parse(await Bun.file(file).text())
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { name, location: file, found: true, values: {}, errors: [`invalid YAML: ${message}`] }
+  }
+
+  return { name, location: file, found: true, ...validateLayer(schema, raw) }
+}
+
+// Sets the given keys in a settings file, removing those whose value is undefined. Comments,
+// formatting and keys that are not updated (even unknown ones) are left as they are.
+export async function updateSettingsFile(file: string, update: Record<string, unknown>): Promise<void> {
+  const content = fs.existsSync(file) ? await Bun.file(file).text() : ""
+  const doc = yaml.parseDocument(content)
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot update ${file}, it is not valid YAML: ${doc.errors[0]!.message}`)
+  }
+  if (doc.contents !== null && !yaml.isMap(doc.contents)) {
+    throw new Error(`Cannot update ${file}, it is not a mapping of setting names to values`)
+  }
+
+  for (const [key, value] of Object.entries(update)) {
+    if (value === undefined) {
+      doc.delete(key)
+    } else {
+      doc.set(key, value)
+    }
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  await Bun.write(file, doc.toString())
+}
+
+function unwrap(field: z.ZodTypeAny): z.ZodTypeAny {
+  if (field instanceof z.ZodDefault) return unwrap(field._def.innerType)
+  if (field instanceof z.ZodOptional) return unwrap(field.unwrap())
+  if (field instanceof z.ZodEffects) return unwrap(field.innerType())
+  return field
+}
+
+// Environment values are strings; convert them to what the setting expects. Values that don't
+// convert are passed through unchanged so validation reports them.
+function coerceEnvValue(field: z.ZodTypeAny, value: string): unknown {
+  const inner = unwrap(field)
+
+  if (inner instanceof z.ZodNumber) {
+    const number = Number(value)
+    return value.trim() !== "" && !Number.isNaN(number) ? number : value
+  }
+  if (inner instanceof z.ZodBoolean) {
+    if (/^(true|1|yes|on)$/i.test(value)) return true
+    if (/^(false|0|no|off)$/i.test(value)) return false
+    return value
+  }
+  if (inner instanceof z.ZodArray) {
+    if (value.trim().startsWith("[")) {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value
+      }
+    }
+    return value.split(",").map((item) => item.trim()).filter((item) => item.length > 0)
+  }
+  return value
+}
+
+export function readEnvLayer<S extends z.AnyZodObject>(
+  schema: S,
+  env: NodeJS.ProcessEnv = process.env
+): SettingsLayer<z.infer<S>> {
+  const byVariable = new Map(Object.keys(schema.shape).map((key) => [envVarName(key), key]))
+  const raw: Record<string, unknown> = {}
+  const errors: string[] = []
+
+  for (const [variable, value] of Object.entries(env)) {
+    if (!variable.startsWith(ENV_PREFIX) || value === undefined) continue
+    const key = byVariable.get(variable)
+    if (!key) {
+      errors.push(`${variable}: unknown setting`)
+      continue
+    }
+    raw[key] = coerceEnvValue(schema.shape[key], value)
+  }
+
+  const validated = validateLayer(schema, raw, envVarName)
+  return {
+    name: "env",
+    location: "environment",
+    found: Object.keys(raw).length > 0 || errors.length > 0,
+    values: validated.values,
+    errors: [...errors, ...validated.errors],
+  }
+}
+
+export function mergeLayers<T extends object>(
+  defaults: T,
+  layers: SettingsLayer<T>[]
+): { settings: T; sources: Record<string, SettingsSource> } {
+  const settings = { ...defaults }
+  const target = settings as Record<string, unknown>
+  const sources: Record<string, SettingsSource> = {}
+  for (const key of Object.keys(defaults)) sources[key] = "default"
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer.values)) {
+      target[key] = value
+      sources[key] = layer.name
+    }
+  }
+
+  return { settings, sources }
+}
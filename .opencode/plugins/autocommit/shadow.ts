@@ -0,0 +1,52 @@
+import type { PluginInput } from "@opencode-ai/plugin"
+import { listSessionCommits, type CommitInfo } from "./history"
+
+type BunShell = PluginInput["$"]
+
+export const SHADOW_REF_PREFIX = "refs/opencode/autocommit/"
+
+export function shadowRef(sessionID: string): string {
+  return `${SHADOW_REF_PREFIX}${sessionID}`
+}
+
+export async function resolveCommit($: BunShell, rev: string): Promise<string | null> {
+  const result = await $`git rev-parse --quiet --verify --end-of-options ${`${rev}^{commit}`}`.nothrow().quiet()
+  return result.exitCode === 0 ? result.stdout.toString().trim() : null
+}
+
+// Commit `tree` on top of the ref's current tip `previous`, or on `base` for the first checkpoint.
+// Fails if another process moved the ref in the meantime.
+export async function writeCheckpoint(
+  $: BunShell,
+  ref: string,
+  tree: string,
+  previous: string | null,
+  base: string | null,
+  message: string
+): Promise<string> {
+  const parent = previous ?? base
+  const parentArgs = parent ? ["-p", parent] : []
+  const created = await $`git commit-tree ${tree} ${parentArgs} < ${new Response(message)}`.quiet()
+  const sha = created.stdout.toString().trim()
+
+  // An empty old value makes update-ref require that the ref does not exist yet
+  await $`git update-ref -m ${"autocommit: checkpoint"} ${ref} ${sha} ${previous ?? ""}`.quiet()
+  return sha
+}
+
+// Checkpoints of a session, newest first. The chain starts on top of the commit that was HEAD
+// when the first checkpoint was taken, so only the unbroken run of session commits at the tip counts.
+export async function listCheckpoints($: BunShell, sessionID: string): Promise<CommitInfo[]> {
+  const ref = shadowRef(sessionID)
+  const tip = await resolveCommit($, ref)
+  if (!tip) return []
+
+  const checkpoints: CommitInfo[] = []
+  let expected = tip
+  for (const commit of await listSessionCommits($, sessionID, ref)) {
+    if (commit.sha !== expected) break
+    checkpoints.push(commit)
+    expected = commit.parents[0] ?? ""
+  }
+  return checkpoints
+}
@@ -0,0 +1,111 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { CheckReport } from "./checks"
+
+// Kept out of git by the .gitignore written next to the state files
+export const STATE_DIR = ".opencode/autocommit-state"
+
+// Older turns are dropped so long-running sessions don't grow their state file forever
+const MAX_RECORDED_TURNS = 500
+
+export interface TurnRecord {
+  turnID: string
+  // Commit (or shadow checkpoint) created for the turn; absent when the turn had nothing to commit
+  sha?: string
+  time: number
+}
+
+export interface SessionState {
+  sessionID: string
+  turns: TurnRecord[]
+  // Gate checks of the session's latest commit attempt
+  lastChecks?: CheckReport
+}
+
+export interface StateStore {
+  read(sessionID: string): SessionState
+  hasTurn(sessionID: string, turnID: string): boolean
+  recordTurn(sessionID: string, turnID: string, sha?: string): void
+  forgetTurns(sessionID: string, turnIDs: string[]): void
+  // Branch (or commit) new session branches start from, shared by every session
+  readBranchBase(): string | null
+  recordBranchBase(base: string): void
+  recordChecks(sessionID: string, report: CheckReport): void
+}
+
+const BRANCH_BASE_FILE = "branch-base.json"
+
+function stateFile(stateDir: string, sessionID: string): string {
+  return path.join(stateDir, `${sessionID.replace(/[^\w.-]/g, "_")}.json`)
+}
+
+export function createStateStore(directory: string): StateStore {
+  const stateDir = path.join(directory, STATE_DIR)
+
+  function read(sessionID: string): SessionState {
+    const file = stateFile(stateDir, sessionID)
+    if (!fs.existsSync(file)) return { sessionID, turns: [] }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, "utf8")) as Partial<SessionState>
+      return {
+        sessionID,
+        turns: Array.isArray(parsed.turns) ? parsed.turns : [],
+        ...(parsed.lastChecks ? { lastChecks: parsed.lastChecks } : {}),
+      }
+    } catch {
+      // A corrupt file only loses the dedupe history; it must not block future commits
+      return { sessionID, turns: [] }
+    }
+  }
+
+  function writeFile(file: string, value: unknown): void {
+    fs.mkdirSync(stateDir, { recursive: true })
+    const ignoreFile = path.join(stateDir, ".gitignore")
+    if (!fs.existsSync(ignoreFile)) {
+      fs.writeFileSync(ignoreFile, "*\n")
+    }
+
+    // Write then rename so a crash never leaves a half-written file behind
+    const tempFile = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tempFile, JSON.stringify(value, null, 2))
+    fs.renameSync(tempFile, file)
+  }
+
+  function write(state: SessionState): void {
+    writeFile(stateFile(stateDir, state.sessionID), state)
+  }
+
+  return {
+    read,
+    hasTurn(sessionID, turnID) {
+      return read(sessionID).turns.some((t) => t.turnID === turnID)
+    },
+    recordTurn(sessionID, turnID, sha) {
+      const state = read(sessionID)
+      state.turns = [
+        ...state.turns.filter((t) => t.turnID !== turnID),
+        { turnID, ...(sha ? { sha } : {}), time: Date.now() },
+      ].slice(-MAX_RECORDED_TURNS)
+      write(state)
+    },
+    forgetTurns(sessionID, turnIDs) {
+      const state = read(sessionID)
+      write({ ...state, turns: state.turns.filter((t) => !turnIDs.includes(t.turnID)) })
+    },
+    recordChecks(sessionID, report) {
+      write({ ...read(sessionID), lastChecks: report })
+    },
+    readBranchBase() {
+      try {
+        const { base } = JSON.parse(fs.readFileSync(path.join(stateDir, BRANCH_BASE_FILE), "utf8")) as { base?: unknown }
+        return typeof base === "string" ? base : null
+      } catch {
+        return null
+      }
+    },
+    recordBranchBase(base) {
+      writeFile(path.join(stateDir, BRANCH_BASE_FILE), { base })
+    },
+  }
+}
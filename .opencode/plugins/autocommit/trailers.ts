@@ -0,0 +1,61 @@
+import type { PluginInput } from "@opencode-ai/plugin"
+
+type BunShell = PluginInput["$"]
+
+export const TRAILER_SESSION = "Opencode-Session"
+export const TRAILER_TURN = "Opencode-Turn"
+export const TRAILER_MODEL = "Opencode-Model"
+export const TRAILER_CO_AUTHOR = "Co-authored-by"
+
+export interface AutoCommitTrailers {
+  sessionID?: string
+  turnID?: string
+  model?: string
+  coAuthors: string[]
+  // Every trailer in the commit, in order, including ones this plugin did not write
+  all: { key: string; value: string }[]
+}
+
+export async function addTrailers(
+  $: BunShell,
+  message: string,
+  trailers: { key: string; value: string }[]
+): Promise<string> {
+  if (trailers.length === 0) return message
+
+  const args = trailers.flatMap((t) => ["--trailer", `${t.key}: ${t.value}`])
+  // Without a final newline git glues the trailers onto the last paragraph
+  const result = await $`git interpret-trailers ${args} < ${new Response(`${message}\n`)}`.quiet()
+  return result.stdout.toString().trimEnd()
+}
+
+// Parse the output of `git interpret-trailers --parse` or `%(trailers:only,unfold)`
+export function parseTrailerLines(text: string): AutoCommitTrailers {
+  const all = text
+    .split("\n")
+    .map((line) => {
+      const separator = line.indexOf(":")
+      return separator > 0 ? { key: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() } : null
+    })
+    .filter((t): t is { key: string; value: string } => t !== null)
+
+  const find = (key: string) => all.find((t) => t.key.toLowerCase() === key.toLowerCase())?.value
+
+  return {
+    sessionID: find(TRAILER_SESSION),
+    turnID: find(TRAILER_TURN),
+    model: find(TRAILER_MODEL),
+    coAuthors: all.filter((t) => t.key.toLowerCase() === TRAILER_CO_AUTHOR.toLowerCase()).map((t) => t.value),
+    all,
+  }
+}
+
+export async function parseTrailers($: BunShell, message: string): Promise<AutoCommitTrailers> {
+  const result = await $`git interpret-trailers --parse < ${new Response(`${message}\n`)}`.quiet()
+  return parseTrailerLines(result.stdout.toString())
+}
+
+export async function readCommitTrailers($: BunShell, commit: string): Promise<AutoCommitTrailers> {
+  const result = await $`git log -1 --format=%B --end-of-options ${commit} --`.quiet()
+  return parseTrailers($, result.stdout.toString())
+}
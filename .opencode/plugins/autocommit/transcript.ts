@@ -0,0 +1,84 @@
+import { z } from "zod"
+import type { PluginInput } from "@opencode-ai/plugin"
+
+type BunShell = PluginInput["$"]
+
+// "message" puts the whole prompt and response in the commit message; "notes" keeps the message
+// short and stores the full transcript as a git note
+export const ZTranscriptMode = z.enum(["message", "notes"])
+
+export type TranscriptMode = z.infer<typeof ZTranscriptMode>
+
+export const NOTES_REF = "refs/notes/opencode-autocommit"
+
+export type TranscriptEntry =
+  | { type: "text"; text: string }
+  | { type: "tool"; tool: string; status: string; files: string[] }
+
+export interface TranscriptTurn {
+  userMessageID: string
+  userPrompt: string
+  model?: string
+  // The assistant's side of the turn, in order
+  transcript: TranscriptEntry[]
+}
+
+// Files a tool call reads or writes, as given to the tool
+export function getToolTargets(part: any): string[] {
+  const input = part.state?.input ?? {}
+  const targets: string[] = []
+
+  for (const key of ["filePath", "path"]) {
+    if (typeof input[key] === "string") targets.push(input[key])
+  }
+  if (typeof input.patchText === "string") {
+    const headers = input.patchText.matchAll(/^\*\*\* (?:Add File|Update File|Delete File|Move to): (.+)$/gm)
+    for (const match of headers) {
+      targets.push(match[1].trim())
+    }
+  }
+
+  return [...new Set(targets)]
+}
+
+export function getTranscriptEntries(parts: any[]): TranscriptEntry[] {
+  return parts.flatMap((part): TranscriptEntry[] => {
+    if (part.type === "text" && !part.synthetic) return [{ type: "text", text: part.text }]
+    if (part.type === "tool") {
+      return [{ type: "tool", tool: part.tool, status: part.state?.status ?? "unknown", files: getToolTargets(part) }]
+    }
+    return []
+  })
+}
+
+export function formatTranscript(sessionID: string, turns: TranscriptTurn[]): string {
+  const sections = turns.map((turn) => {
+    const assistant = turn.transcript
+      .map((entry) =>
+        entry.type === "text"
+          ? entry.text
+          : `- ${entry.tool} (${entry.status})${entry.files.length > 0 ? `: ${entry.files.join(", ")}` : ""}`
+      )
+      .join("\n\n")
+
+    return `## Turn ${turn.userMessageID}${turn.model ? ` (${turn.model})` : ""}
+
+### User
+${turn.userPrompt}
+
+### Assistant
+${assistant || "(no response)"}`
+  })
+
+  return `# Session ${sessionID}\n\n${sections.join("\n\n")}\n`
+}
+
+export async function writeTranscript($: BunShell, sha: string, transcript: string): Promise<void> {
+  await $`git notes --ref=${NOTES_REF} add --force --file=- ${sha} < ${new Response(transcript)}`.quiet()
+}
+
+// null when the commit has no transcript
+export async function readTranscript($: BunShell, rev: string): Promise<string | null> {
+  const result = await $`git notes --ref=${NOTES_REF} show ${`${rev}^{commit}`}`.nothrow().quiet()
+  return result.exitCode === 0 ? result.stdout.toString() : null
+}
@@ -0,0 +1,161 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  turnStarted,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+function withLine(index: number, text: string, source = lines): string[] {
+  return source.map((line, i) => (i === index ? text : line));
+}
+
+async function setupRepo(settingsYaml: string): Promise<string> {
+  const dir = await createTestRepo(settingsYaml);
+  await Bun.write(`${dir}/notes.md`, lines.join("\n") + "\n");
+  await $`cd ${dir} && git add notes.md && git commit -m "Add notes"`.quiet();
+  return dir;
+}
+
+function editTurn(dir: string) {
+  return [
+    userMessage("msg_user_1", "Update line 18 of notes.md and add new.txt"),
+    assistantMessage("msg_assistant_1", "msg_user_1", "Done", [
+      toolPart("edit", { filePath: `${dir}/notes.md`, oldString: "line 18", newString: "line 18 (agent)" }),
+      toolPart("write", { filePath: `${dir}/new.txt`, content: "new\n" }),
+    ]),
+  ];
+}
+
+async function committedFiles(dir: string): Promise<string[]> {
+  const output = await $`cd ${dir} && git show --name-only --format= HEAD`.text();
+  return output.trim().split("\n").filter((l) => l.length > 0).sort();
+}
+
+test("exclude commits only the turn's hunks of files that were already dirty", async () => {
+  testDir = await setupRepo("mode: enabled\npreexistingChanges: exclude\n");
+  const stub = createStubClient({ messages: editTurn(testDir) });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  const userEdited = withLine(1, "line 2 (user)");
+  await Bun.write(`${testDir}/notes.md`, userEdited.join("\n") + "\n");
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/notes.md`, withLine(17, "line 18 (agent)", userEdited).join("\n") + "\n");
+  await Bun.write(`${testDir}/new.txt`, "new\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await committedFiles(testDir)).toEqual(["new.txt", "notes.md"]);
+
+  const committed = await $`cd ${testDir} && git show HEAD:notes.md`.text();
+  expect(committed).toContain("line 18 (agent)");
+  expect(committed).not.toContain("line 2 (user)");
+
+  // The user's own edit is still there, unstaged
+  const unstaged = await $`cd ${testDir} && git diff`.text();
+  expect(unstaged).toContain("+line 2 (user)");
+  expect(unstaged).not.toContain("line 18");
+  const staged = await $`cd ${testDir} && git diff --cached`.text();
+  expect(staged).toBe("");
+});
+
+test("exclude leaves pre-existing changes the turn did not touch out of the commit", async () => {
+  testDir = await setupRepo("mode: enabled\nstaging: all\npreexistingChanges: exclude\n");
+  const stub = createStubClient({ messages: editTurn(testDir) });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/draft.txt`, "user draft\n");
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/new.txt`, "new\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await committedFiles(testDir)).toEqual(["new.txt"]);
+  const status = await $`cd ${testDir} && git status --porcelain`.text();
+  expect(status.trim()).toBe("?? draft.txt");
+
+  const excluded = stub.logs.find((l) => l.message === "Leaving changes made before this turn unstaged");
+  expect(excluded?.extra?.files).toEqual(["draft.txt"]);
+});
+
+test("refuse skips the commit when pre-existing changes would be included", async () => {
+  testDir = await setupRepo("mode: enabled\npreexistingChanges: refuse\n");
+  const stub = createStubClient({ messages: editTurn(testDir) });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/notes.md`, withLine(1, "line 2 (user)").join("\n") + "\n");
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/new.txt`, "new\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const count = await $`cd ${testDir} && git rev-list --count HEAD`.text();
+  expect(count.trim()).toBe("2");
+
+  const refused = stub.logs.find((l) => l.message.includes("refusing to commit"));
+  expect(refused?.extra?.files).toEqual(["notes.md"]);
+});
+
+test("include commits pre-existing changes along with the turn", async () => {
+  testDir = await setupRepo("mode: enabled\npreexistingChanges: include\n");
+  const stub = createStubClient({ messages: editTurn(testDir) });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/notes.md`, withLine(1, "line 2 (user)").join("\n") + "\n");
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/new.txt`, "new\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await committedFiles(testDir)).toEqual(["new.txt", "notes.md"]);
+  const committed = await $`cd ${testDir} && git show HEAD:notes.md`.text();
+  expect(committed).toContain("line 2 (user)");
+});
+
+test("an update to an already committed prompt doesn't take the next turn's baseline", async () => {
+  testDir = await setupRepo("mode: enabled\npreexistingChanges: exclude\n");
+  const firstTurn = [
+    userMessage("msg_user_0", "Add first.txt"),
+    assistantMessage("msg_assistant_0", "msg_user_0", "Done", [toolPart("write", { filePath: `${testDir}/first.txt`, content: "1\n" })]),
+  ];
+  const stub = createStubClient({ messages: firstTurn });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await turnStarted(hooks, "ses_1", "msg_user_0");
+  await Bun.write(`${testDir}/first.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  // opencode adds the turn's summary diffs to its prompt after the turn ends
+  await hooks.event?.({
+    event: { type: "message.updated", properties: { info: { id: "msg_user_0", sessionID: "ses_1", role: "user" } } },
+  } as any);
+  const userEdited = withLine(1, "line 2 (user)");
+  await Bun.write(`${testDir}/notes.md`, userEdited.join("\n") + "\n");
+
+  stub.setMessages([...firstTurn, ...editTurn(testDir)]);
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/notes.md`, withLine(17, "line 18 (agent)", userEdited).join("\n") + "\n");
+  await Bun.write(`${testDir}/new.txt`, "new\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const committed = await $`cd ${testDir} && git show HEAD:notes.md`.text();
+  expect(committed).toContain("line 18 (agent)");
+  expect(committed).not.toContain("line 2 (user)");
+  expect(await $`cd ${testDir} && git diff`.text()).toContain("+line 2 (user)");
+});
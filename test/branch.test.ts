@@ -0,0 +1,112 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import { ZBranchPattern, matchesBranchPattern, renderBranchName, sessionSlug } from "../.opencode/plugins/autocommit/branch";
+import { createStubClient, createTestRepo, runTool, sessionIdle, startPlugin, turn } from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+test("session branch names are built from the title and session ID", () => {
+  expect(sessionSlug("ses_Abc123", "Add a greeting file!")).toBe("add-a-greeting-file-ses-abc123");
+  expect(sessionSlug("ses_abc123", "")).toBe("ses-abc123");
+  expect(renderBranchName("agent/{{ sessionID }}/{{slug}}", { slug: "fix-ses-1", sessionID: "ses_1" })).toBe(
+    "agent/ses_1/fix-ses-1",
+  );
+  expect(matchesBranchPattern("agent/{{sessionID}}.{{slug}}", "agent/ses_1.fix-ses-1")).toBe(true);
+  expect(matchesBranchPattern("agent/{{sessionID}}.{{slug}}", "agent/ses_1-fix")).toBe(false);
+  expect(matchesBranchPattern("opencode/{{slug}}", "main")).toBe(false);
+  expect(ZBranchPattern.safeParse("opencode/main").success).toBe(false);
+  expect(ZBranchPattern.safeParse("opencode/{{title}}").error?.issues[0]?.message).toContain("Unknown placeholder {{title}}");
+});
+
+test("branch mode commits each session on its own branch and leaves the user's branch alone", async () => {
+  testDir = await createTestRepo("mode: branch\n");
+  const userBranch = (await $`cd ${testDir} && git branch --show-current`.text()).trim();
+  const original = (await $`cd ${testDir} && git rev-parse HEAD`.text()).trim();
+  const stub = createStubClient({ messages: turn(1, "one.txt"), sessionTitle: "Greeting files" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  stub.setMessages([...turn(1, "one.txt"), ...turn(2, "two.txt")]);
+  await Bun.write(`${testDir}/two.txt`, "2\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect((await $`cd ${testDir} && git branch --show-current`.text()).trim()).toBe("opencode/greeting-files-ses-1");
+  expect((await $`cd ${testDir} && git rev-parse ${userBranch}`.text()).trim()).toBe(original);
+  expect(await $`cd ${testDir} && git rev-list --count ${userBranch}..HEAD`.text()).toBe("2\n");
+});
+
+test("each session branch starts from the user's branch, not from another session's", async () => {
+  testDir = await createTestRepo("mode: branch\nbranchPattern: agent/{{sessionID}}\n");
+  const userBranch = (await $`cd ${testDir} && git branch --show-current`.text()).trim();
+  const stub = createStubClient();
+  stub.setMessages(turn(1, "one.txt"), "ses_A");
+  stub.setMessages(turn(2, "two.txt"), "ses_B");
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_A");
+  await Bun.write(`${testDir}/two.txt`, "2\n");
+  await sessionIdle(hooks, "ses_B");
+
+  expect((await $`cd ${testDir} && git branch --show-current`.text()).trim()).toBe("agent/ses_B");
+  expect(await $`cd ${testDir} && git rev-list --count ${userBranch}..agent/ses_A`.text()).toBe("1\n");
+  expect(await $`cd ${testDir} && git rev-list --count ${userBranch}..agent/ses_B`.text()).toBe("1\n");
+  expect(await $`cd ${testDir} && git ls-tree --name-only agent/ses_B`.text()).not.toContain("one.txt");
+});
+
+test("session branches still start from the user's branch after a restart", async () => {
+  testDir = await createTestRepo("mode: branch\nbranchPattern: agent/{{sessionID}}\n");
+  const userBranch = (await $`cd ${testDir} && git branch --show-current`.text()).trim();
+  const stub = createStubClient();
+  stub.setMessages(turn(1, "one.txt"), "ses_A");
+  stub.setMessages(turn(2, "two.txt"), "ses_B");
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await sessionIdle(await startPlugin(testDir, stub.client), "ses_A");
+  expect((await $`cd ${testDir} && git branch --show-current`.text()).trim()).toBe("agent/ses_A");
+
+  // A new plugin instance knows nothing about agent/ses_A
+  const restarted = await startPlugin(testDir, stub.client);
+  await Bun.write(`${testDir}/two.txt`, "2\n");
+  await sessionIdle(restarted, "ses_B");
+
+  expect(await $`cd ${testDir} && git rev-list --count ${userBranch}..agent/ses_B`.text()).toBe("1\n");
+  expect(await $`cd ${testDir} && git ls-tree --name-only agent/ses_B`.text()).not.toContain("one.txt");
+});
+
+test("branch mode reuses an existing session branch", async () => {
+  testDir = await createTestRepo("mode: branch\nbranchPattern: agent/{{sessionID}}\n");
+  await $`cd ${testDir} && git branch agent/ses_1`.quiet();
+  const stub = createStubClient({ messages: turn(1, "one.txt") });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect((await $`cd ${testDir} && git branch --show-current`.text()).trim()).toBe("agent/ses_1");
+  expect(stub.logs.some((l) => l.message === "Using session branch" && l.extra?.branch === "agent/ses_1")).toBe(true);
+  expect(await $`cd ${testDir} && git rev-list --count agent/ses_1`.text()).toBe("2\n");
+});
+
+test("setAutoCommitSettings accepts branch mode and validates the pattern", async () => {
+  testDir = await createTestRepo("mode: disabled\n");
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+
+  const updated = JSON.parse(await runTool(hooks, "setAutoCommitSettings", { mode: "branch", branchPattern: "ai/{{slug}}" }));
+  expect(updated.mode).toBe("branch");
+  expect(updated.branchPattern).toBe("ai/{{slug}}");
+
+  await expect(runTool(hooks, "setAutoCommitSettings", { branchPattern: "ai/fixed" })).rejects.toThrow(
+    "must contain {{slug}} or {{sessionID}}",
+  );
+});
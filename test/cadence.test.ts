@@ -0,0 +1,165 @@
+import { test, expect, afterEach, setSystemTime } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  runTool,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  setSystemTime();
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const firstTurn = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello\n" }),
+  ]),
+];
+
+const secondTurn = [
+  userMessage("msg_user_2", "Add a farewell file"),
+  assistantMessage("msg_assistant_2", "msg_user_2", "Created bye.txt", [
+    toolPart("write", { filePath: "bye.txt", content: "Bye\n" }),
+  ]),
+];
+
+function summarize(options: any): string {
+  const prompt: string = options.body.parts[0].text;
+  if (prompt.includes("### Turn 1")) return "Add greeting and farewell files";
+  return prompt.includes("farewell") ? "Add farewell file" : "Add greeting file";
+}
+
+async function commitCount(dir: string): Promise<number> {
+  return parseInt(await $`cd ${dir} && git rev-list --count HEAD`.text());
+}
+
+async function runTwoTurns(settingsYaml: string, beforeSecondIdle: () => void = () => {}) {
+  const dir = await createTestRepo(settingsYaml);
+  testDir = dir;
+  const stub = createStubClient({ messages: firstTurn, onPrompt: summarize });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/hello.txt`, "Hello\n");
+  await sessionIdle(hooks, "ses_1");
+  const afterFirst = await commitCount(dir);
+
+  stub.setMessages([...firstTurn, ...secondTurn]);
+  await Bun.write(`${dir}/bye.txt`, "Bye\n");
+  beforeSecondIdle();
+  await sessionIdle(hooks, "ses_1");
+
+  return { dir, stub, hooks, afterFirst };
+}
+
+test("every-n-turns commits the batch as one commit listing each prompt under its own summary", async () => {
+  const { dir, stub, afterFirst } = await runTwoTurns("mode: enabled\ncadence: every-n-turns\ncadenceTurns: 2\n");
+
+  expect(afterFirst).toBe(1);
+  expect(stub.logs.some((l) => l.message === "Holding turns back until the commit cadence is due")).toBe(true);
+  expect(await commitCount(dir)).toBe(2);
+
+  const message = await $`cd ${dir} && git log -1 --format=%B`.text();
+  expect(message).toStartWith("Add greeting and farewell files\n\n## User Prompt\n");
+  expect(message).toContain("### Turn 1: Add greeting file\nAdd a greeting file\n\n### Turn 2: Add farewell file\nAdd a farewell file");
+  expect(message).toContain("Opencode-Turn: msg_user_1\nOpencode-Turn: msg_user_2");
+
+  const files = await $`cd ${dir} && git show --name-only --format= HEAD`.text();
+  expect(files.split("\n").filter(Boolean).sort()).toEqual(["bye.txt", "hello.txt"]);
+});
+
+test("min-interval commits once the first held-back turn has waited long enough", async () => {
+  const start = new Date("2026-01-01T10:00:00Z");
+  setSystemTime(start);
+  const { dir, afterFirst } = await runTwoTurns("mode: enabled\ncadence: min-interval\ncadenceMinutes: 10\n", () => {
+    setSystemTime(new Date(start.getTime() + 11 * 60 * 1000));
+  });
+
+  expect(afterFirst).toBe(1);
+  expect(await commitCount(dir)).toBe(2);
+  expect(await $`cd ${dir} && git log -1 --format=%s`.text()).toBe("Add greeting and farewell files\n");
+});
+
+test("min-interval keeps holding turns back within the interval", async () => {
+  const start = new Date("2026-01-01T10:00:00Z");
+  setSystemTime(start);
+  const { dir } = await runTwoTurns("mode: enabled\ncadence: min-interval\ncadenceMinutes: 10\n", () => {
+    setSystemTime(new Date(start.getTime() + 5 * 60 * 1000));
+  });
+
+  expect(await commitCount(dir)).toBe(1);
+});
+
+test("on-demand only commits after commitNow, at the end of the turn that called it", async () => {
+  const { dir, stub, hooks } = await runTwoTurns("mode: enabled\ncadence: on-demand\n");
+  expect(await commitCount(dir)).toBe(1);
+
+  expect(await runTool(hooks, "commitNow")).toBe("The turns pending since msg_user_1 will be committed when the current turn ends");
+  expect(await commitCount(dir)).toBe(1);
+
+  await sessionIdle(hooks, "ses_1");
+  expect(await commitCount(dir)).toBe(2);
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe("");
+
+  // The request is used up by that commit
+  stub.setMessages([
+    ...firstTurn,
+    ...secondTurn,
+    userMessage("msg_user_3", "Add a third file"),
+    assistantMessage("msg_assistant_3", "msg_user_3", "Created third.txt", [
+      toolPart("write", { filePath: "third.txt", content: "Third\n" }),
+    ]),
+  ]);
+  await Bun.write(`${dir}/third.txt`, "Third\n");
+  await sessionIdle(hooks, "ses_1");
+  expect(await commitCount(dir)).toBe(2);
+});
+
+test("commitNow refuses while auto-commit is disabled", async () => {
+  testDir = await createTestRepo("mode: disabled\n");
+  const hooks = await startPlugin(testDir, createStubClient().client);
+
+  await expect(runTool(hooks, "commitNow")).rejects.toThrow("Failed to request a commit: auto-commit is disabled");
+});
+
+test("turns still held back are committed when the session is deleted", async () => {
+  const { dir, stub, hooks } = await runTwoTurns("mode: enabled\ncadence: on-demand\n");
+  expect(await commitCount(dir)).toBe(1);
+
+  await hooks.event?.({ event: { type: "session.deleted", properties: { info: { id: "ses_1" } } } } as any);
+  expect(await commitCount(dir)).toBe(2);
+  expect(await $`cd ${dir} && git log -1 --format=%s`.text()).toBe("Add greeting and farewell files\n");
+  expect(stub.logs.some((l) => l.message.includes("left uncommitted"))).toBe(false);
+});
+
+test("turns still held back are committed when the plugin is disposed", async () => {
+  const { dir, hooks } = await runTwoTurns("mode: enabled\ncadence: every-n-turns\ncadenceTurns: 3\n");
+  expect(await commitCount(dir)).toBe(1);
+
+  await hooks.dispose?.();
+  expect(await commitCount(dir)).toBe(2);
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe("");
+});
+
+test("held-back turns that can't be committed when the session ends are reported", async () => {
+  const { dir, stub, hooks } = await runTwoTurns("mode: enabled\ncadence: on-demand\n");
+
+  // A deleted session's messages are gone by the time the event arrives
+  stub.setMessages([]);
+  await hooks.event?.({ event: { type: "session.deleted", properties: { info: { id: "ses_1" } } } } as any);
+
+  expect(await commitCount(dir)).toBe(1);
+  expect(stub.logs.some((l) => l.message === "Session ended with turns held back by cadence, leaving them uncommitted")).toBe(true);
+  expect(stub.toasts.at(-1)).toMatchObject({ variant: "warning", message: "Turns held back by cadence were left uncommitted" });
+});
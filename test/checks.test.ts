@@ -0,0 +1,131 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import * as fs from "node:fs";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  runTool,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+async function runTurn(settingsYaml: string, setup?: (dir: string) => Promise<void>) {
+  testDir = await createTestRepo(settingsYaml);
+  await setup?.(testDir);
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const subject = (await $`cd ${testDir} && git log -1 --format=%s`.text()).trim();
+  return { dir: testDir, stub, hooks, subject };
+}
+
+test("passing checks let the commit through", async () => {
+  const { stub, hooks, subject } = await runTurn("mode: enabled\nchecks:\n  - test -f hello.txt\n");
+
+  expect(subject).toBe("Add greeting file");
+  const report = JSON.parse(await runTool(hooks, "getAutoCommitChecks"));
+  expect(report.outcome).toBe("passed");
+  expect(report.turnIDs).toEqual(["msg_user_1"]);
+  expect(stub.prompts).toHaveLength(1);
+});
+
+test("failing checks skip the commit and keep the output for the agent", async () => {
+  const { stub, hooks, subject } = await runTurn(
+    "mode: enabled\nchecks:\n  - echo lint broke; exit 3\n  - echo fine\n",
+  );
+
+  expect(subject).toBe("Initial commit");
+  // The summary model is not called for a commit that won't happen
+  expect(stub.prompts).toHaveLength(0);
+  expect(stub.toasts[0]).toMatchObject({ variant: "error", message: "Not committed, checks failed: echo lint broke; exit 3" });
+
+  const report = JSON.parse(await runTool(hooks, "getAutoCommitChecks"));
+  expect(report.outcome).toBe("skipped");
+  expect(report.results.map((r: any) => [r.exitCode, r.output])).toEqual([
+    [3, "lint broke\n"],
+    [0, "fine\n"],
+  ]);
+});
+
+test("a turn skipped by failing checks is left unstaged and committed with the next turn", async () => {
+  const { dir, stub, hooks } = await runTurn("mode: enabled\nchecks:\n  - test -f fixed.txt\n");
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe("?? hello.txt\n");
+
+  stub.setMessages([
+    ...messages,
+    userMessage("msg_user_2", "Fix the check"),
+    assistantMessage("msg_assistant_2", "msg_user_2", "Created fixed.txt", [
+      toolPart("write", { filePath: "fixed.txt", content: "fixed\n" }),
+    ]),
+  ]);
+  await Bun.write(`${dir}/fixed.txt`, "fixed\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe("");
+  const log = await $`cd ${dir} && git log -2 --format=${"%(trailers:key=Opencode-Turn,valueonly)"} --name-only`.text();
+  expect(log.split("\n").filter((l) => l.length > 0)).toEqual(["msg_user_2", "fixed.txt", "msg_user_1", "hello.txt"]);
+});
+
+test("mark commits anyway with the checks-failed marker", async () => {
+  const { hooks, subject } = await runTurn("mode: enabled\nchecks:\n  - exit 1\nonCheckFailure: mark\n");
+
+  expect(subject).toBe("[checks-failed] Add greeting file");
+  const report = JSON.parse(await runTool(hooks, "getAutoCommitChecks"));
+  expect(report.outcome).toBe("committed-with-failures");
+});
+
+test("checks are killed when they exceed checkTimeout", async () => {
+  const { hooks, subject } = await runTurn("mode: enabled\nchecks:\n  - echo started; sleep 10\ncheckTimeout: 1000\n");
+
+  expect(subject).toBe("Initial commit");
+  const [result] = JSON.parse(await runTool(hooks, "getAutoCommitChecks")).results;
+  expect(result.timedOut).toBe(true);
+  expect(result.exitCode).toBeNull();
+  expect(result.output).toStartWith("started\n");
+});
+
+test("a rejecting pre-commit hook is reported like a failed check", async () => {
+  const installHook = async (dir: string) => {
+    fs.writeFileSync(`${dir}/.git/hooks/pre-commit`, "#!/bin/sh\necho 'hook says no' >&2\nexit 1\n", { mode: 0o755 });
+  };
+  // Some environments disable hooks through GIT_CONFIG_* (core.hooksPath=/dev/null)
+  const gitConfig = { ...process.env };
+  for (const key of Object.keys(process.env).filter((k) => k.startsWith("GIT_CONFIG_"))) {
+    delete process.env[key];
+  }
+  let result;
+  try {
+    result = await runTurn("mode: enabled\nonCheckFailure: mark\n", installHook);
+  } finally {
+    Object.assign(process.env, gitConfig);
+  }
+  const { hooks, subject } = result;
+
+  expect(subject).toBe("[checks-failed] Add greeting file");
+  const report = JSON.parse(await runTool(hooks, "getAutoCommitChecks"));
+  expect(report.outcome).toBe("committed-with-failures");
+  expect(report.results[0].command).toBe("git commit hooks");
+  expect(report.results[0].output).toContain("hook says no");
+});
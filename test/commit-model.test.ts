@@ -0,0 +1,115 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+test("commitModel is passed to the summary prompt as provider/model", async () => {
+  testDir = await createTestRepo("mode: enabled\ncommitModel: anthropic/claude-3-5-haiku\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(stub.prompts).toHaveLength(1);
+  expect(stub.prompts[0].body.model).toEqual({ providerID: "anthropic", modelID: "claude-3-5-haiku" });
+
+  const subject = await $`cd ${testDir} && git log -1 --format=%s`.text();
+  expect(subject.trim()).toBe("Add greeting file");
+
+  const generated = stub.logs.find((l) => l.message === "Commit summary generated");
+  expect(generated?.extra?.model).toBe("anthropic/claude-3-5-haiku");
+  expect(stub.deletedSessions).toHaveLength(1);
+});
+
+test("commitModel without a provider is resolved from the configured providers", async () => {
+  testDir = await createTestRepo("mode: enabled\ncommitModel: gpt-4o-mini\n");
+  const stub = createStubClient({
+    messages,
+    providers: [
+      { id: "anthropic", models: { "claude-3-5-haiku": {} } },
+      { id: "openai", models: { "gpt-4o-mini": {} } },
+    ],
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(stub.prompts[0].body.model).toEqual({ providerID: "openai", modelID: "gpt-4o-mini" });
+});
+
+test("falls back through commitModelFallbacks and then the default model", async () => {
+  testDir = await createTestRepo(
+    "mode: enabled\ncommitModel: broken/model-a\ncommitModelFallbacks:\n  - broken/model-b\n",
+  );
+  const stub = createStubClient({
+    messages,
+    onPrompt: (options) => {
+      if (options.body.model) throw new Error(`model ${options.body.model.modelID} unavailable`);
+      return "Default model summary";
+    },
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(stub.prompts.map((p) => p.body.model?.modelID)).toEqual(["model-a", "model-b", undefined]);
+  expect(stub.deletedSessions).toHaveLength(3);
+
+  const subject = await $`cd ${testDir} && git log -1 --format=%s`.text();
+  expect(subject.trim()).toBe("Default model summary");
+
+  const generated = stub.logs.find((l) => l.message === "Commit summary generated");
+  expect(generated?.extra?.model).toBe("default");
+});
+
+test("a model that exceeds commitModelTimeout is abandoned for the next candidate", async () => {
+  testDir = await createTestRepo(
+    "mode: enabled\ncommitModel: slow/model\ncommitModelFallbacks:\n  - fast/model\ncommitModelTimeout: 1000\n",
+  );
+  const stub = createStubClient({
+    messages,
+    onPrompt: async (options) => {
+      if (options.body.model?.providerID === "slow") {
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+      }
+      return "Fast summary";
+    },
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const failure = stub.logs.find((l) => l.message === "Failed to generate commit summary using temporary session");
+  expect(failure?.extra?.model).toBe("slow/model");
+  expect(failure?.extra?.error).toContain("timed out");
+
+  const subject = await $`cd ${testDir} && git log -1 --format=%s`.text();
+  expect(subject.trim()).toBe("Fast summary");
+}, { timeout: 10_000 });
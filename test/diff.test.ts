@@ -0,0 +1,99 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import { condenseDiff } from "../.opencode/plugins/autocommit/diff";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+function filePatch(name: string, hunks: number, linesPerHunk: number): string {
+  const header = [`diff --git a/${name} b/${name}`, "index 1111111..2222222 100644", `--- a/${name}`, `+++ b/${name}`];
+  const body = Array.from({ length: hunks }, (_, h) => [
+    `@@ -${h * 100 + 1},${linesPerHunk} +${h * 100 + 1},${linesPerHunk} @@ function section${h}()`,
+    ...Array.from({ length: linesPerHunk }, (_, l) => `+${name} hunk ${h} line ${l}`),
+  ]).flat();
+  return [...header, ...body].join("\n");
+}
+
+const stat = " a.ts | 40 ++++\n b.ts | 40 ++++\n 2 files changed, 80 insertions(+)\n";
+
+test("condenseDiff keeps a patch that fits the budget unchanged", () => {
+  const patch = filePatch("a.ts", 1, 3);
+  const diff = condenseDiff(stat, patch, 4000);
+  expect(diff).toEqual({ stat, patch, truncated: false });
+});
+
+test("condenseDiff keeps every file name and hunk header when the patch is too large", () => {
+  const patch = [filePatch("a.ts", 2, 20), filePatch("b.ts", 2, 20)].join("\n");
+  const diff = condenseDiff(stat, patch, 1200);
+
+  expect(diff.truncated).toBe(true);
+  expect(diff.stat.length + diff.patch.length).toBeLessThanOrEqual(1200);
+  expect(diff.patch).toContain("diff --git a/a.ts b/a.ts");
+  expect(diff.patch).toContain("diff --git a/b.ts b/b.ts");
+  expect(diff.patch).toContain("@@ -101,20 +101,20 @@ function section1()");
+  expect(diff.patch).not.toContain("index 1111111");
+  expect(diff.patch).toContain("lines omitted]");
+  // The first hunk of each file gets body lines before any second hunk does
+  expect(diff.patch).toContain("+a.ts hunk 0 line 0");
+  expect(diff.patch).toContain("+b.ts hunk 0 line 0");
+});
+
+test("condenseDiff falls back to file names when hunk headers do not fit", () => {
+  const patch = Array.from({ length: 30 }, (_, i) => filePatch(`file${i}.ts`, 3, 5)).join("\n");
+  const diff = condenseDiff(stat, patch, 500);
+
+  expect(diff.truncated).toBe(true);
+  expect(diff.patch).toContain("diff --git a/file0.ts b/file0.ts");
+  expect(diff.patch).not.toContain("@@");
+  expect(diff.patch).toMatch(/\[\.\.\. \d+ more files\]$/);
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "done!", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+test("the staged diff of the committed files is included in the summary prompt", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await Bun.write(`${testDir}/scratch.txt`, "not part of the turn\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const prompt: string = stub.prompts[0].body.parts[0].text;
+  expect(prompt).toContain("hello.txt | 1 +");
+  expect(prompt).toContain("+Hello World!");
+  expect(prompt).not.toContain("scratch.txt");
+});
+
+test("summaryDiffBudget: 0 leaves the diff out of the prompt", async () => {
+  testDir = await createTestRepo("mode: enabled\nsummaryDiffBudget: 0\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const prompt: string = stub.prompts[0].body.parts[0].text;
+  expect(prompt).toContain("- hello.txt");
+  expect(prompt).not.toContain("+Hello World!");
+});
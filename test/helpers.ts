@@ -0,0 +1,172 @@
+import { $ } from "bun";
+import type { Hooks, PluginInput } from "@opencode-ai/plugin";
+import { AutoCommitPlugin } from "../.opencode/plugins/autocommit";
+
+export interface LogEntry {
+  level: string;
+  message: string;
+  extra?: Record<string, any>;
+}
+
+export interface StubClientOptions {
+  // Messages returned by session.messages for the session under test
+  messages?: any[];
+  // Called for every session.prompt; return the summary text or throw to simulate a model error
+  onPrompt?: (options: any) => Promise<string> | string;
+  providers?: { id: string; models: Record<string, unknown> }[];
+  // Title returned by session.get
+  sessionTitle?: string;
+}
+
+export interface StubClient {
+  client: PluginInput["client"];
+  logs: LogEntry[];
+  prompts: any[];
+  deletedSessions: string[];
+  toasts: any[];
+  // Replace the messages of one session, or the default returned for every other session
+  setMessages(messages: any[], sessionID?: string): void;
+}
+
+export function createStubClient(options: StubClientOptions = {}): StubClient {
+  const logs: LogEntry[] = [];
+  const prompts: any[] = [];
+  const deletedSessions: string[] = [];
+  const toasts: any[] = [];
+  let messages = options.messages ?? [];
+  const sessionMessages = new Map<string, any[]>();
+  let sessionCount = 0;
+
+  const client = {
+    app: {
+      log: async ({ body }: any) => {
+        logs.push({ level: body.level, message: body.message, extra: body.extra });
+        return { data: true };
+      },
+    },
+    tui: {
+      showToast: async ({ body }: any) => {
+        toasts.push(body);
+        return { data: true };
+      },
+    },
+    config: {
+      providers: async () => ({
+        data: { providers: options.providers ?? [], default: {} },
+      }),
+    },
+    session: {
+      create: async () => ({ data: { id: `ses_temp_${++sessionCount}` } }),
+      delete: async ({ path }: any) => {
+        deletedSessions.push(path.id);
+        return { data: true };
+      },
+      abort: async () => ({ data: true }),
+      get: async ({ path }: any) => ({ data: { id: path.id, title: options.sessionTitle ?? "" } }),
+      messages: async ({ path }: any) => ({ data: sessionMessages.get(path.id) ?? messages }),
+      prompt: async (promptOptions: any) => {
+        prompts.push(promptOptions);
+        // opencode stores a noReply prompt as a user message and returns it
+        if (promptOptions.body.noReply) {
+          return { data: { info: { id: `msg_notice_${prompts.length}`, role: "user" }, parts: promptOptions.body.parts } };
+        }
+        const text = options.onPrompt ? await options.onPrompt(promptOptions) : "Stub summary";
+        return {
+          data: {
+            info: { role: "assistant" },
+            parts: [{ type: "text", text }],
+          },
+        };
+      },
+    },
+  };
+
+  return {
+    client: client as unknown as PluginInput["client"],
+    logs,
+    prompts,
+    deletedSessions,
+    toasts,
+    setMessages(next, sessionID) {
+      if (sessionID) {
+        sessionMessages.set(sessionID, next);
+      } else {
+        messages = next;
+      }
+    },
+  };
+}
+
+export function userMessage(id: string, text: string) {
+  return {
+    info: { id, role: "user" },
+    parts: [{ type: "text", text }],
+  };
+}
+
+export function assistantMessage(id: string, parentID: string, text: string, extraParts: any[] = []) {
+  return {
+    info: { id, role: "assistant", parentID, providerID: "anthropic", modelID: "claude-sonnet-4" },
+    parts: [{ type: "text", text }, ...extraParts],
+  };
+}
+
+export function toolPart(tool: string, input: Record<string, unknown>) {
+  return {
+    type: "tool",
+    tool,
+    state: { status: "completed", input, output: "", title: "", metadata: {} },
+  };
+}
+
+// A turn whose assistant writes `${n}\n` to `file`, with IDs msg_user_<n> and msg_assistant_<n>
+export function turn(n: number | string, file: string) {
+  return [
+    userMessage(`msg_user_${n}`, `Write ${file}`),
+    assistantMessage(`msg_assistant_${n}`, `msg_user_${n}`, "Done", [toolPart("write", { filePath: file, content: `${n}\n` })]),
+  ];
+}
+
+export async function createTestRepo(settingsYaml: string): Promise<string> {
+  const testDir = `/tmp/opencode-test-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  await $`mkdir -p ${testDir}/.opencode`.quiet();
+  await $`cd ${testDir} && git init`.quiet();
+  await $`cd ${testDir} && git config user.name "Test User"`.quiet();
+  await $`cd ${testDir} && git config user.email "test@example.com"`.quiet();
+  await Bun.write(`${testDir}/.opencode/auto-commit.settings.yml`, settingsYaml);
+  await Bun.write(`${testDir}/README.md`, "# Test Repository\n");
+  await $`cd ${testDir} && git add . && git commit -m "Initial commit"`.quiet();
+
+  return testDir;
+}
+
+export async function startPlugin(testDir: string, client: PluginInput["client"]): Promise<Hooks> {
+  const shell = new $.Shell().cwd(testDir);
+  return AutoCommitPlugin({
+    client,
+    $: shell,
+    directory: testDir,
+    worktree: testDir,
+  } as unknown as PluginInput);
+}
+
+export async function turnStarted(hooks: Hooks, sessionID: string, messageID: string): Promise<void> {
+  await hooks["chat.message"]?.(
+    { sessionID, messageID },
+    { message: { id: messageID, sessionID, role: "user" }, parts: [] } as any,
+  );
+}
+
+export async function runTool(hooks: Hooks, name: string, args: Record<string, unknown> = {}, sessionID = "ses_1"): Promise<string> {
+  const definition = hooks.tool?.[name];
+  if (!definition) throw new Error(`Tool ${name} is not registered`);
+  const result = await definition.execute(args as any, { sessionID, messageID: "msg_tool", agent: "build" } as any);
+  return typeof result === "string" ? result : result.output;
+}
+
+export async function sessionIdle(hooks: Hooks, sessionID: string): Promise<void> {
+  await hooks.event?.({
+    event: { type: "session.idle", properties: { sessionID } },
+  } as any);
+}
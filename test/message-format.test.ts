@@ -0,0 +1,124 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  ZMessageTemplate,
+  formatCommitMessage,
+  normalizeConventionalSummary,
+} from "../.opencode/plugins/autocommit/message-format";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+const context = {
+  summary: "Add greeting file",
+  prompt: "Add a greeting file",
+  response: "Created hello.txt",
+  files: ["hello.txt", "src/greet.ts"],
+  sessionID: "ses_1",
+  turnID: "msg_user_1",
+  model: "anthropic/claude-3-5-haiku",
+};
+
+test("normalizeConventionalSummary keeps valid headers and repairs the rest", () => {
+  expect(normalizeConventionalSummary("feat(greet): Add greeting file.", [])).toBe("feat(greet): add greeting file");
+  expect(normalizeConventionalSummary("`fix: handle empty input`", [])).toBe("fix: handle empty input");
+  expect(normalizeConventionalSummary("Update the readme", ["README.md"])).toBe("docs: update the readme");
+  expect(normalizeConventionalSummary("Add cases", ["test/a.test.ts"])).toBe("test: add cases");
+  expect(normalizeConventionalSummary("Auto-commit", ["src/a.ts"])).toBe("chore: auto-commit");
+});
+
+test("conventional format wraps body lines at 100 characters", () => {
+  const message = formatCommitMessage("conventional", { ...context, summary: "feat: add greeting", response: "word ".repeat(60) });
+  const lines = message.split("\n");
+  expect(lines[0]).toBe("feat: add greeting");
+  expect(lines[1]).toBe("");
+  expect(lines.every((l) => l.length <= 100)).toBe(true);
+});
+
+test("template format substitutes every placeholder", () => {
+  const template = "{{summary}}\n\nFiles:\n{{files}}\n\nSession: {{ sessionID }} / {{turnID}}\nModel: {{model}}\n\n{{prompt}}\n---\n{{response}}\n";
+  expect(formatCommitMessage("template", context, template)).toBe(
+    "Add greeting file\n\nFiles:\n- hello.txt\n- src/greet.ts\n\nSession: ses_1 / msg_user_1\nModel: anthropic/claude-3-5-haiku\n\nAdd a greeting file\n---\nCreated hello.txt",
+  );
+});
+
+test("sections leave the prompt or response out of the message", () => {
+  expect(formatCommitMessage("plain", { ...context, sections: "prompt" })).toBe("Add greeting file\n\n## User Prompt\nAdd a greeting file");
+  expect(formatCommitMessage("plain", { ...context, sections: "response" })).toBe("Add greeting file\n\n## LLM Response\nCreated hello.txt");
+  expect(formatCommitMessage("plain", { ...context, sections: "none" })).toBe("Add greeting file");
+  expect(formatCommitMessage("conventional", { ...context, summary: "feat: add greeting", sections: "none" })).toBe("feat: add greeting");
+  expect(formatCommitMessage("plain", { ...context, sections: "response", compact: true })).toBe("Add greeting file");
+  expect(formatCommitMessage("template", { ...context, sections: "response" }, "{{summary}}\n\n{{prompt}}|{{response}}")).toBe(
+    "Add greeting file\n\n|Created hello.txt",
+  );
+});
+
+test("ZMessageTemplate rejects unknown placeholders", () => {
+  const result = ZMessageTemplate.safeParse("{{summary}}\n\n{{diff}}");
+  expect(result.success).toBe(false);
+  expect(result.error?.issues[0]?.message).toContain("Unknown placeholder {{diff}}");
+});
+
+test("conventional format produces a commitlint-style subject", async () => {
+  testDir = await createTestRepo("mode: enabled\nmessageFormat: conventional\n");
+  const stub = createStubClient({ messages, onPrompt: () => "feat(greeting): Add hello file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(stub.prompts[0].body.parts[0].text).toContain("Conventional Commits");
+  expect(stub.prompts[0].body.parts[0].text).toContain("- hello.txt");
+
+  const subject = await $`cd ${testDir} && git log -1 --format=%s`.text();
+  expect(subject.trim()).toBe("feat(greeting): add hello file");
+});
+
+test("template format renders the template file", async () => {
+  testDir = await createTestRepo(
+    "mode: enabled\nmessageFormat: template\nmessageTemplate: .opencode/commit-template.txt\ntrailers: false\n",
+  );
+  await Bun.write(`${testDir}/.opencode/commit-template.txt`, "{{summary}}\n\nPrompt: {{prompt}}\nSession: {{sessionID}}\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const body = await $`cd ${testDir} && git log -1 --format=%B`.text();
+  expect(body.trim()).toBe("Add greeting file\n\nPrompt: Add a greeting file\nSession: ses_1");
+});
+
+test("an invalid template is rejected when settings are loaded", async () => {
+  testDir = await createTestRepo(
+    "mode: enabled\nmessageFormat: template\nmessageTemplate: .opencode/commit-template.txt\n",
+  );
+  await Bun.write(`${testDir}/.opencode/commit-template.txt`, "{{summary}} {{author}}\n");
+  const stub = createStubClient({ messages });
+  await startPlugin(testDir, stub.client);
+
+  const failure = stub.logs.find((l) => l.message === "Failed to load settings file");
+  expect(failure?.extra?.error).toContain("Unknown placeholder {{author}}");
+});
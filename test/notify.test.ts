@@ -0,0 +1,127 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  turnStarted,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+test("a successful commit is reported in a toast with SHA, summary and file count", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const sha = (await $`cd ${testDir} && git rev-parse --short=7 HEAD`.text()).trim();
+  expect(stub.toasts).toEqual([
+    { title: "Auto-commit", variant: "success", message: `Committed ${sha}: Add greeting file (1 file)` },
+  ]);
+});
+
+test("message mode appends a synthetic message that is not mistaken for a turn", async () => {
+  testDir = await createTestRepo("mode: enabled\nnotify: message\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const notice = stub.prompts.find((p) => p.body.noReply);
+  expect(notice.path.id).toBe("ses_1");
+  expect(notice.body.parts[0]).toMatchObject({ type: "text", synthetic: true });
+  expect(notice.body.parts[0].text).toStartWith("Auto-commit: Committed ");
+  expect(stub.toasts).toEqual([]);
+
+  const noticeMessage = { info: { id: "msg_notice", role: "user" }, parts: notice.body.parts };
+  stub.setMessages([...messages, noticeMessage]);
+  await Bun.write(`${testDir}/hello.txt`, "Changed by the user\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await $`cd ${testDir} && git rev-list --count HEAD`.text()).toBe("2\n");
+  expect(stub.logs.some((l) => l.message === "Turn already committed, skipping")).toBe(true);
+});
+
+test("a failed commit is reported with git's error output", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  await $`cd ${testDir} && git config commit.gpgsign true && git config gpg.program false`.quiet();
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(stub.toasts).toHaveLength(1);
+  expect(stub.toasts[0].variant).toBe("error");
+  expect(stub.toasts[0].message).toStartWith("Commit failed: ");
+  expect(stub.toasts[0].message).toContain("gpg failed to sign the data");
+});
+
+test("notify: off stays quiet", async () => {
+  testDir = await createTestRepo("mode: enabled\nnotify: off\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(stub.toasts).toEqual([]);
+  expect(stub.prompts.filter((p) => p.body.noReply)).toEqual([]);
+});
+
+test("a posted notice doesn't take the next turn's baseline", async () => {
+  testDir = await createTestRepo("mode: enabled\nstaging: all\nnotify: message\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  // opencode publishes the notice like any other user message
+  const notice = stub.prompts.find((p) => p.body.noReply);
+  await hooks.event?.({
+    event: { type: "message.updated", properties: { info: { id: "msg_notice_2", sessionID: "ses_1", role: "user" } } },
+  } as any);
+  await hooks["chat.message"]?.(
+    { sessionID: "ses_1", messageID: "msg_notice_2" },
+    { message: { id: "msg_notice_2", sessionID: "ses_1", role: "user" }, parts: notice.body.parts } as any,
+  );
+
+  await Bun.write(`${testDir}/user-notes.txt`, "Written by hand between turns\n");
+
+  stub.setMessages([
+    ...messages,
+    { info: { id: "msg_notice_2", role: "user" }, parts: notice.body.parts },
+    userMessage("msg_user_2", "Add a farewell file"),
+    assistantMessage("msg_assistant_2", "msg_user_2", "Created bye.txt"),
+  ]);
+  await turnStarted(hooks, "ses_1", "msg_user_2");
+  await Bun.write(`${testDir}/bye.txt`, "Bye\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await $`cd ${testDir} && git show --name-only --format= HEAD`.text()).toBe("bye.txt\n");
+  expect(await $`cd ${testDir} && git status --porcelain`.text()).toBe("?? user-notes.txt\n");
+});
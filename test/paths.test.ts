@@ -0,0 +1,97 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import { assistantMessage, createStubClient, createTestRepo, sessionIdle, startPlugin, userMessage } from "./helpers";
+import { isIncludedPath, pathGroupOf } from "../.opencode/plugins/autocommit/paths";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Update the packages"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Updated them"),
+];
+
+async function statusLines(dir: string): Promise<string[]> {
+  const output = await $`cd ${dir} && git status --porcelain --untracked-files=all`.text();
+  return output.split("\n").filter((l) => l.length > 0).sort();
+}
+
+test("isIncludedPath applies include, then exclude", () => {
+  expect(isIncludedPath("infra/main.tf", [], [])).toBe(true);
+  expect(isIncludedPath("packages/app/index.ts", ["packages/**"], ["**/dist/**"])).toBe(true);
+  expect(isIncludedPath("packages/app/dist/index.js", ["packages/**"], ["**/dist/**"])).toBe(false);
+  expect(isIncludedPath("infra/main.tf", ["packages/**"], [])).toBe(false);
+  expect(isIncludedPath("packages/app/yarn.lock", [], ["*.lock"])).toBe(false);
+});
+
+test("pathGroupOf names a file's group after the directory the pattern matched", () => {
+  expect(pathGroupOf("packages/app/src/index.ts", ["packages/*", "docs"])).toBe("packages/app");
+  expect(pathGroupOf("docs/guide/intro.md", ["packages/*", "docs"])).toBe("docs");
+  expect(pathGroupOf("README.md", ["packages/*", "docs"])).toBeNull();
+  expect(pathGroupOf("packages/README.md", ["packages/*"])).toBeNull();
+});
+
+test("only changes inside include and outside exclude are committed", async () => {
+  testDir = await createTestRepo("mode: enabled\nstaging: all\ninclude: [packages/**]\nexclude: ['**/dist/**']\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/packages/app/index.ts`, "export {}\n");
+  await Bun.write(`${testDir}/packages/app/dist/index.js`, "built\n");
+  await Bun.write(`${testDir}/infra/main.tf`, "terraform {}\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const committed = await $`cd ${testDir} && git show --name-only --format= HEAD`.text();
+  expect(committed.trim()).toBe("packages/app/index.ts");
+  expect(await statusLines(testDir)).toEqual(["?? infra/main.tf", "?? packages/app/dist/index.js"]);
+});
+
+test("nothing is committed when every change is excluded", async () => {
+  testDir = await createTestRepo("mode: enabled\nstaging: all\nexclude: [infra/**]\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/infra/main.tf`, "terraform {}\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await $`cd ${testDir} && git rev-list --count HEAD`.text()).toBe("1\n");
+  expect(stub.logs.some((l) => l.message === "No changes within the include/exclude rules to commit")).toBe(true);
+});
+
+test("pathGroups splits a turn into one commit per group, each with its own summary", async () => {
+  testDir = await createTestRepo("mode: enabled\nstaging: all\npathGroups: ['packages/*']\n");
+  const stub = createStubClient({
+    messages,
+    onPrompt: (options) => {
+      const text: string = options.body.parts[0].text;
+      if (text.includes("packages/app/")) return "Update app";
+      if (text.includes("packages/lib/")) return "Update lib";
+      return "Update readme";
+    },
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/README.md`, "# Monorepo\n");
+  await Bun.write(`${testDir}/packages/lib/index.ts`, "export const lib = 1\n");
+  await Bun.write(`${testDir}/packages/app/index.ts`, "export const app = 1\n");
+  await Bun.write(`${testDir}/packages/app/util.ts`, "export {}\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const log = await $`cd ${testDir} && git log --reverse --format=%x00%s --name-only HEAD~3..HEAD`.text();
+  const commits = log
+    .split("\0")
+    .filter((c) => c.length > 0)
+    .map((c) => c.trim().split("\n").filter((l) => l.length > 0));
+  expect(commits).toEqual([
+    ["Update app", "packages/app/index.ts", "packages/app/util.ts"],
+    ["Update lib", "packages/lib/index.ts"],
+    ["Update readme", "README.md"],
+  ]);
+  expect(await statusLines(testDir)).toEqual([]);
+});
@@ -0,0 +1,144 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  runTool,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+async function repoState(dir: string) {
+  return {
+    head: (await $`cd ${dir} && git rev-parse HEAD`.text()).trim(),
+    status: await $`cd ${dir} && git status --porcelain --untracked-files=all`.text(),
+  };
+}
+
+test("previewAutoCommit returns the commit the turn would produce without touching the repository", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await Bun.write(`${testDir}/notes.txt`, "Not from this turn\n");
+  const before = await repoState(testDir);
+
+  const preview = JSON.parse(await runTool(hooks, "previewAutoCommit"));
+  expect(preview.mode).toBe("enabled");
+  expect(preview.dryRun).toBe(false);
+  expect(preview.skipped).toBeUndefined();
+  expect(preview.commits).toHaveLength(1);
+  expect(preview.commits[0]).toMatchObject({ userMessageIDs: ["msg_user_1"], files: ["hello.txt"], summary: "Add greeting file" });
+  expect(preview.commits[0].diffstat).toContain("hello.txt | 1 +");
+  expect(preview.commits[0].message).toStartWith("Add greeting file\n\n## User Prompt\nAdd a greeting file");
+  expect(preview.commits[0].message).toContain("Opencode-Session: ses_1");
+
+  expect(await repoState(testDir)).toEqual(before);
+  expect(stub.toasts).toEqual([]);
+
+  await sessionIdle(hooks, "ses_1");
+  const committed = await $`cd ${testDir} && git log -1 --format=%B`.text();
+  expect(committed.trimEnd()).toBe(preview.commits[0].message.trimEnd());
+});
+
+test("previewAutoCommit works while auto-commit is disabled and says why nothing would be committed", async () => {
+  testDir = await createTestRepo("mode: disabled\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  expect(JSON.parse(await runTool(hooks, "previewAutoCommit"))).toEqual({
+    mode: "disabled",
+    dryRun: false,
+    guardrailPolicy: "unstage-offending",
+    commits: [],
+    blocked: [],
+    skipped: "No changes to commit",
+  });
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  const preview = JSON.parse(await runTool(hooks, "previewAutoCommit"));
+  expect(preview.commits.map((c: any) => c.files)).toEqual([["hello.txt"]]);
+});
+
+test("previewAutoCommit returns guardrail findings instead of reporting them", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const guarded = [
+    userMessage("msg_user_1", "Configure the app"),
+    assistantMessage("msg_assistant_1", "msg_user_1", "Done", [
+      toolPart("write", { filePath: ".env", content: "TOKEN=1\n" }),
+      toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+    ]),
+  ];
+  const stub = createStubClient({ messages: guarded, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/.env`, "TOKEN=1\n");
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  const finding = { path: ".env", reason: "denied-path", detail: "matches denyPaths" };
+
+  const preview = JSON.parse(await runTool(hooks, "previewAutoCommit"));
+  expect(preview.guardrailPolicy).toBe("unstage-offending");
+  expect(preview.commits[0]).toMatchObject({ files: ["hello.txt"], flagged: [finding] });
+  expect(preview.blocked).toEqual([]);
+
+  await runTool(hooks, "setAutoCommitSettings", { guardrailPolicy: "block" });
+  const blocked = JSON.parse(await runTool(hooks, "previewAutoCommit"));
+  expect(blocked.commits).toEqual([]);
+  expect(blocked.blocked).toEqual([finding]);
+
+  expect(stub.toasts).toEqual([]);
+  expect(stub.prompts.filter((p) => p.body?.noReply)).toEqual([]);
+  expect(stub.logs.some((l) => /guardrails/.test(l.message))).toBe(false);
+});
+
+test("dryRun reports the commit on idle instead of making it", async () => {
+  testDir = await createTestRepo("mode: enabled\ndryRun: true\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  const before = await repoState(testDir);
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await repoState(testDir)).toEqual(before);
+  expect(stub.toasts).toEqual([
+    { title: "Auto-commit", variant: "info", message: "Dry run, would commit: Add greeting file (1 file)" },
+  ]);
+
+  const log = stub.logs.find((l) => l.message === "Dry run, not committing");
+  expect(log?.extra).toMatchObject({ sessionID: "ses_1", files: ["hello.txt"], summary: "Add greeting file" });
+  expect(log?.extra?.message).toStartWith("Add greeting file\n\n## User Prompt\n");
+});
+
+test("dryRun in shadow mode previews the checkpoint without writing it", async () => {
+  testDir = await createTestRepo("mode: shadow\ndryRun: true\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const refs = await $`cd ${testDir} && git for-each-ref refs/opencode`.text();
+  expect(refs).toBe("");
+  expect(stub.toasts.map((t) => t.message)).toEqual(["Dry run, would commit: Add greeting file (1 file)"]);
+});
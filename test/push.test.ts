@@ -0,0 +1,159 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+let remoteDir: string | null = null;
+
+afterEach(async () => {
+  for (const dir of [testDir, remoteDir]) {
+    if (dir) await $`rm -rf ${dir}`.quiet();
+  }
+  testDir = null;
+  remoteDir = null;
+});
+
+// A test repository with a local bare repository as its "origin" remote
+async function createRepoWithRemote(settingsYaml: string): Promise<{ dir: string; remote: string; branch: string }> {
+  const dir = await createTestRepo(settingsYaml);
+  const remote = `${dir}-remote.git`;
+  await $`git init --quiet --bare ${remote}`.quiet();
+  await $`cd ${dir} && git remote add origin ${remote}`.quiet();
+  const branch = (await $`cd ${dir} && git branch --show-current`.text()).trim();
+  await $`cd ${dir} && git push --quiet origin ${branch}`.quiet();
+  testDir = dir;
+  remoteDir = remote;
+  return { dir, remote, branch };
+}
+
+async function remoteSubjects(remote: string, branch: string): Promise<string[]> {
+  const output = await $`git --git-dir=${remote} log --format=%s ${branch}`.nothrow().text();
+  return output.split("\n").filter((l) => l.length > 0);
+}
+
+function turn(n: number) {
+  return [
+    userMessage(`msg_user_${n}`, `Change ${n}`),
+    assistantMessage(`msg_assistant_${n}`, `msg_user_${n}`, `Changed ${n}`),
+  ];
+}
+
+test("per-turn pushes the session branch after each commit", async () => {
+  const { dir, remote } = await createRepoWithRemote(
+    "mode: branch\nbranchPattern: agent/{{sessionID}}\nstaging: all\npush: per-turn\n",
+  );
+  const stub = createStubClient({ messages: turn(1), onPrompt: () => "Add hello" });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/hello.txt`, "Hello\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await remoteSubjects(remote, "agent/ses_1")).toEqual(["Add hello", "Initial commit"]);
+  expect(stub.toasts.map((t) => t.message)).toContain("Pushed agent/ses_1 to origin");
+});
+
+test("protected branches are never pushed", async () => {
+  const { dir, remote, branch } = await createRepoWithRemote("mode: enabled\nstaging: all\npush: per-turn\n");
+  const stub = createStubClient({ messages: turn(1), onPrompt: () => "Add hello" });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/hello.txt`, "Hello\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await remoteSubjects(remote, branch)).toEqual(["Initial commit"]);
+  expect(stub.logs.some((l) => l.message === "Refusing to push a protected branch")).toBe(true);
+  expect(stub.toasts.at(-1)).toMatchObject({ variant: "warning", message: `Not pushed, ${branch} is a protected branch` });
+});
+
+async function pushFromOtherClone(remote: string, branch: string): Promise<void> {
+  const other = `${remote}-clone`;
+  await $`git clone --quiet ${remote} ${other}`.quiet();
+  await Bun.write(`${other}/other.txt`, "Other\n");
+  await $`cd ${other} && git add other.txt && git -c user.name=Other -c user.email=other@example.com commit --quiet -m "Other change" && git push --quiet origin ${branch}`.quiet();
+  await $`rm -rf ${other}`.quiet();
+}
+
+test("a rejected push is retried after rebasing the plugin's commits onto the remote", async () => {
+  const { dir, remote, branch } = await createRepoWithRemote(
+    "mode: enabled\nstaging: all\npush: per-turn\nprotectedBranches: []\nexclude: [notes.txt]\n",
+  );
+  await pushFromOtherClone(remote, branch);
+  // Uncommitted work of the user's, which the rebase must leave alone
+  await Bun.write(`${dir}/notes.txt`, "notes\n");
+
+  const stub = createStubClient({ messages: turn(1), onPrompt: () => "Add hello" });
+  const hooks = await startPlugin(dir, stub.client);
+  await Bun.write(`${dir}/hello.txt`, "Hello\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await remoteSubjects(remote, branch)).toEqual(["Add hello", "Other change", "Initial commit"]);
+  expect(await $`cd ${dir} && git rev-parse HEAD`.text()).toBe(await $`git --git-dir=${remote} rev-parse ${branch}`.text());
+  expect(await $`cd ${dir} && git branch --show-current`.text()).toBe(`${branch}\n`);
+  expect(await Bun.file(`${dir}/other.txt`).text()).toBe("Other\n");
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe("?? notes.txt\n");
+  expect(stub.logs.some((l) => l.message === "Rebased auto-commits onto the remote branch")).toBe(true);
+});
+
+test("commits the plugin didn't make are never rebased", async () => {
+  const { dir, remote, branch } = await createRepoWithRemote("mode: enabled\nstaging: all\npush: per-turn\nprotectedBranches: []\n");
+  await pushFromOtherClone(remote, branch);
+  await Bun.write(`${dir}/manual.txt`, "By hand\n");
+  await $`cd ${dir} && git add manual.txt && git commit --quiet -m "Manual change"`.quiet();
+  const before = await $`cd ${dir} && git rev-parse HEAD`.text();
+
+  const stub = createStubClient({ messages: turn(1), onPrompt: () => "Add hello" });
+  const hooks = await startPlugin(dir, stub.client);
+  await Bun.write(`${dir}/hello.txt`, "Hello\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await remoteSubjects(remote, branch)).toEqual(["Other change", "Initial commit"]);
+  expect(await $`cd ${dir} && git rev-parse HEAD~1`.text()).toBe(before);
+  expect(stub.toasts.at(-1)).toMatchObject({
+    variant: "error",
+    message: `Push to origin rejected: ${branch} has diverged and has commits not made by auto-commit`,
+  });
+});
+
+test("every-n-commits waits for N commits, and session end pushes the rest", async () => {
+  const { dir, remote } = await createRepoWithRemote(
+    "mode: branch\nbranchPattern: agent/{{sessionID}}\nstaging: all\npush: every-n-commits\npushEvery: 2\n",
+  );
+  const stub = createStubClient({ messages: turn(1), onPrompt: () => "Change" });
+  const hooks = await startPlugin(dir, stub.client);
+
+  for (const n of [1, 2, 3]) {
+    stub.setMessages([...turn(1), ...turn(2), ...turn(3)].slice(0, n * 2));
+    await Bun.write(`${dir}/file${n}.txt`, `${n}\n`);
+    await sessionIdle(hooks, "ses_1");
+    const pushed = (await remoteSubjects(remote, "agent/ses_1")).length;
+    expect(pushed).toBe(n === 1 ? 0 : 3);
+  }
+
+  await hooks.event?.({ event: { type: "session.deleted", properties: { info: { id: "ses_1" } } } } as any);
+  expect((await remoteSubjects(remote, "agent/ses_1")).length).toBe(4);
+});
+
+test("a failed push is reported and doesn't stop the next commit", async () => {
+  const { dir } = await createRepoWithRemote(
+    "mode: branch\nbranchPattern: agent/{{sessionID}}\nstaging: all\npush: per-turn\npushRemote: nowhere\n",
+  );
+  const stub = createStubClient({ messages: turn(1), onPrompt: () => "Change" });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/file1.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+  expect(stub.toasts.at(-1).variant).toBe("error");
+  expect(stub.toasts.at(-1).message).toStartWith("Push to nowhere failed: ");
+
+  stub.setMessages([...turn(1), ...turn(2)]);
+  await Bun.write(`${dir}/file2.txt`, "2\n");
+  await sessionIdle(hooks, "ses_1");
+  expect(await $`cd ${dir} && git rev-list --count HEAD`.text()).toBe("3\n");
+});
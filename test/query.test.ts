@@ -0,0 +1,118 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  runTool,
+  sessionIdle,
+  startPlugin,
+  userMessage,
+} from "./helpers";
+import { parseCommitMessage } from "../.opencode/plugins/autocommit/query";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+async function createHistory(settingsYaml: string) {
+  const dir = await createTestRepo(settingsYaml);
+  testDir = dir;
+  const stub = createStubClient({
+    onPrompt: (options) => (options.body.parts[0].text.includes("farewell") ? "Add farewell" : "Add greeting"),
+  });
+  stub.setMessages(
+    [
+      userMessage("msg_user_1", "Write a greeting file"),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Wrote hello.txt"),
+    ],
+    "ses_1",
+  );
+  stub.setMessages(
+    [
+      userMessage("msg_user_2", "Now add a FAREWELL line"),
+      assistantMessage("msg_assistant_2", "msg_user_2", "Added the farewell"),
+    ],
+    "ses_2",
+  );
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/hello.txt`, "Hello\n");
+  await sessionIdle(hooks, "ses_1");
+  await Bun.write(`${dir}/hello.txt`, "Hello\nGoodbye\n");
+  await sessionIdle(hooks, "ses_2");
+  await Bun.write(`${dir}/manual.txt`, "By hand\n");
+  await $`cd ${dir} && git add manual.txt && git commit --quiet -m "Manual change"`.quiet();
+
+  return { dir, hooks };
+}
+
+test("parseCommitMessage reads the prompt and response sections", () => {
+  expect(parseCommitMessage("Fix bug\n\n## User Prompt\nFix it\nplease\n\n## LLM Response\nFixed.")).toEqual({
+    prompt: "Fix it\nplease",
+    response: "Fixed.",
+    source: "message",
+  });
+  expect(parseCommitMessage("Fix bug\n\nPrompt: Fix it please")).toEqual({
+    prompt: "Fix it please",
+    response: "",
+    source: "excerpt",
+  });
+});
+
+test("listAutoCommits lists auto-commits newest first and filters them", async () => {
+  const { hooks } = await createHistory("mode: enabled\nstaging: all\n");
+
+  const all = JSON.parse(await runTool(hooks, "listAutoCommits"));
+  expect(all.map((c: any) => [c.summary, c.sessionID, c.turnIDs, c.prompt, c.response, c.source])).toEqual([
+    ["Add farewell", "ses_2", ["msg_user_2"], "Now add a FAREWELL line", "Added the farewell", "message"],
+    ["Add greeting", "ses_1", ["msg_user_1"], "Write a greeting file", "Wrote hello.txt", "message"],
+  ]);
+  expect(all[0].model).toBe("anthropic/claude-sonnet-4");
+  expect(all[0].date).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+
+  const bySession = JSON.parse(await runTool(hooks, "listAutoCommits", { sessionID: "ses_1" }));
+  expect(bySession.map((c: any) => c.summary)).toEqual(["Add greeting"]);
+
+  const byPrompt = JSON.parse(await runTool(hooks, "listAutoCommits", { prompt: "farewell" }));
+  expect(byPrompt.map((c: any) => c.summary)).toEqual(["Add farewell"]);
+
+  expect(JSON.parse(await runTool(hooks, "listAutoCommits", { until: "2000-01-01" }))).toEqual([]);
+  expect(JSON.parse(await runTool(hooks, "listAutoCommits", { since: "2000-01-01", limit: 1 }))).toHaveLength(1);
+});
+
+test("explainAutoCommit maps a line or a commit back to its prompt", async () => {
+  const { dir, hooks } = await createHistory("mode: enabled\nstaging: all\ntranscript: notes\n");
+
+  const line = JSON.parse(await runTool(hooks, "explainAutoCommit", { target: "hello.txt:2" }));
+  expect(line).toMatchObject({
+    autoCommit: true,
+    summary: "Add farewell",
+    sessionID: "ses_2",
+    turnIDs: ["msg_user_2"],
+    prompt: "Now add a FAREWELL line",
+    response: "Added the farewell",
+    source: "notes",
+    line: { path: "hello.txt", line: 2, content: "Goodbye" },
+  });
+
+  const first = JSON.parse(await runTool(hooks, "explainAutoCommit", { target: "HEAD~2" }));
+  expect(first).toMatchObject({ autoCommit: true, summary: "Add greeting", sessionID: "ses_1" });
+  expect(first.line).toBeUndefined();
+
+  const manual = JSON.parse(await runTool(hooks, "explainAutoCommit", { target: "HEAD" }));
+  expect(manual).toMatchObject({ autoCommit: false, summary: "Manual change" });
+
+  await Bun.write(`${dir}/hello.txt`, "Hello\nGoodbye\nLater\n");
+  await expect(runTool(hooks, "explainAutoCommit", { target: "hello.txt:3" })).rejects.toThrow(
+    "hello.txt:3 has uncommitted changes",
+  );
+  await expect(runTool(hooks, "explainAutoCommit", { target: "no-such-rev" })).rejects.toThrow(
+    "no-such-rev is not a commit or path:line",
+  );
+});
@@ -0,0 +1,119 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import { buildRedactionRules, redactText, redactValue, ZRedactRegex } from "../.opencode/plugins/autocommit/redact";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const githubToken = `ghp_${"a1B2c3D4e5".repeat(4)}`;
+
+test("built-in patterns redact emails, tokens, IPs and URLs", () => {
+  const rules = buildRedactionRules(["email", "token", "ip", "url"], []);
+  const text = [
+    "Mail jane.doe@customer.com about it",
+    `Use ${githubToken} to push`,
+    "Set password: hunter2 and send Authorization: Bearer abc.def-ghi",
+    "The box at 10.1.2.3 serves https://wiki.internal/page?id=4",
+  ].join("\n");
+
+  expect(redactText(text, rules)).toBe(
+    [
+      "Mail [REDACTED:email] about it",
+      "Use [REDACTED:token] to push",
+      "Set [REDACTED:token] and send Authorization: [REDACTED:token]",
+      "The box at [REDACTED:ip] serves [REDACTED:url]",
+    ].join("\n"),
+  );
+});
+
+test("only the chosen patterns and custom regexes apply", () => {
+  const rules = buildRedactionRules(["email"], ["ACME-\\d+"]);
+  expect(redactText("ACME-42 for jane@customer.com at 10.1.2.3", rules)).toBe("[REDACTED] for [REDACTED:email] at 10.1.2.3");
+  expect(redactText("jane@customer.com", buildRedactionRules([], []))).toBe("jane@customer.com");
+});
+
+test("redactValue redacts every string in nested values", () => {
+  const rules = buildRedactionRules(["email"], []);
+  expect(redactValue({ files: ["a.txt", "to-jane@customer.com"], nested: { note: "jane@customer.com" }, count: 2 }, rules)).toEqual({
+    files: ["a.txt", "[REDACTED:email]"],
+    nested: { note: "[REDACTED:email]" },
+    count: 2,
+  });
+});
+
+test("ZRedactRegex rejects invalid regular expressions", () => {
+  const result = ZRedactRegex.safeParse("ACME-(\\d+");
+  expect(result.success).toBe(false);
+  expect(result.error?.issues[0]?.message).toStartWith("Invalid regular expression:");
+});
+
+test("prompts are redacted in the commit message, the summary prompt and the logs", async () => {
+  testDir = await createTestRepo(
+    'mode: enabled\nredact: [email, token]\nredactPatterns: ["ACME-\\\\d+"]\nmessageSections: prompt\n',
+  );
+  const file = "notes-for-jane@customer.com.txt";
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", `Write notes for jane@customer.com about ACME-42, the token is ${githubToken}`),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Wrote the notes for jane@customer.com", [
+        toolPart("write", { filePath: file, content: "Notes\n" }),
+      ]),
+    ],
+    onPrompt: () => "Add notes",
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/${file}`, "Notes\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const message = await $`cd ${testDir} && git log -1 --format=%B`.text();
+  expect(message).toStartWith(
+    "Add notes\n\n## User Prompt\nWrite notes for [REDACTED:email] about [REDACTED], the token is [REDACTED:token]\n",
+  );
+  expect(message).not.toContain("## LLM Response");
+
+  const summaryPrompt = stub.prompts[0].body.parts[0].text;
+  expect(summaryPrompt).toContain("Write notes for [REDACTED:email] about [REDACTED]");
+  expect(summaryPrompt).not.toContain("jane@customer.com");
+  expect(summaryPrompt).not.toContain(githubToken);
+
+  expect(JSON.stringify(stub.logs.map((l) => l.extra))).not.toContain("jane@customer.com");
+  expect(await $`cd ${testDir} && git show --name-only --format= HEAD`.text()).toBe(`${file}\n`);
+});
+
+test("transcripts stored in git notes are redacted", async () => {
+  testDir = await createTestRepo("mode: enabled\ntranscript: notes\nredact: [email]\n");
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", "Add a contact file for jane@customer.com"),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Added jane@customer.com to contact.txt", [
+        toolPart("write", { filePath: "contact.txt", content: "Jane\n" }),
+      ]),
+    ],
+    onPrompt: () => "Add contact file",
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/contact.txt`, "Jane\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const note = await $`cd ${testDir} && git notes --ref=refs/notes/opencode-autocommit show HEAD`.text();
+  expect(note).toContain("### User\nAdd a contact file for [REDACTED:email]");
+  expect(note).toContain("Added [REDACTED:email] to contact.txt");
+  expect(note).not.toContain("jane@customer.com");
+});
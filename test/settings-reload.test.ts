@@ -0,0 +1,90 @@
+import { test, expect, afterEach, beforeEach } from "bun:test";
+import { $ } from "bun";
+import type { Hooks } from "@opencode-ai/plugin";
+import { createStubClient, createTestRepo, runTool, startPlugin, type StubClient } from "./helpers";
+
+let testDir: string | null = null;
+let hooks: Hooks | null = null;
+let configHome: string;
+const savedConfigHome = process.env.XDG_CONFIG_HOME;
+
+beforeEach(async () => {
+  configHome = `/tmp/opencode-config-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await $`mkdir -p ${configHome}/opencode`.quiet();
+  process.env.XDG_CONFIG_HOME = configHome;
+});
+
+afterEach(async () => {
+  await hooks?.dispose?.();
+  hooks = null;
+  if (savedConfigHome === undefined) {
+    delete process.env.XDG_CONFIG_HOME;
+  } else {
+    process.env.XDG_CONFIG_HOME = savedConfigHome;
+  }
+  await $`rm -rf ${configHome}`.quiet();
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+async function waitForLog(stub: StubClient, message: string): Promise<any> {
+  const deadline = Date.now() + 5000;
+  while (Date.now() < deadline) {
+    const entry = stub.logs.find((l) => l.message === message);
+    if (entry) return entry;
+    await Bun.sleep(50);
+  }
+  throw new Error(`No "${message}" log within 5s`);
+}
+
+async function currentSettings(): Promise<any> {
+  return JSON.parse(await runTool(hooks!, "getAutoCommitSettings"));
+}
+
+test("editing the settings file reloads it and logs what changed", async () => {
+  testDir = await createTestRepo("# Auto-commit\nmode: disabled\n");
+  const stub = createStubClient();
+  hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/.opencode/auto-commit.settings.yml`, "# Auto-commit\nmode: enabled\nnotify: off\n");
+
+  const reloaded = await waitForLog(stub, "Reloaded settings");
+  expect(reloaded.extra.changes).toEqual({
+    mode: { from: "disabled", to: "enabled", source: "repo" },
+    notify: { from: "toast", to: "off", source: "repo" },
+  });
+  const output = await currentSettings();
+  expect(output.settings).toMatchObject({ mode: "enabled", notify: "off" });
+  expect(output.sources).toMatchObject({ mode: "repo", notify: "repo" });
+});
+
+test("an invalid edit keeps the previous settings and logs the validation error", async () => {
+  testDir = await createTestRepo("mode: enabled\nmaxCommitLength: 5000\n");
+  const stub = createStubClient();
+  hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/.opencode/auto-commit.settings.yml`, "mode: enabled\nmaxCommitLength: 5\n");
+
+  const rejected = await waitForLog(stub, "Settings changed but are invalid, keeping the previous settings");
+  expect(rejected.extra.errors).toEqual([
+    `repo (${testDir}/.opencode/auto-commit.settings.yml): maxCommitLength: Number must be greater than or equal to 100`,
+  ]);
+  expect((await currentSettings()).settings.maxCommitLength).toBe(5000);
+});
+
+test("a new global settings file is picked up and session changes are kept", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient();
+  hooks = await startPlugin(testDir, stub.client);
+  await runTool(hooks, "setAutoCommitSettings", { notify: "message" });
+
+  await Bun.write(`${configHome}/opencode/auto-commit.settings.yml`, "notify: off\nstaging: all\n");
+
+  const reloaded = await waitForLog(stub, "Reloaded settings");
+  expect(reloaded.extra.changes).toEqual({ staging: { from: "turn", to: "all", source: "global" } });
+  const output = await currentSettings();
+  expect(output.settings).toMatchObject({ notify: "message", staging: "all" });
+  expect(output.sources).toMatchObject({ notify: "set", staging: "global" });
+});
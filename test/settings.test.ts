@@ -0,0 +1,219 @@
+import { test, expect, afterEach, beforeEach } from "bun:test";
+import { $ } from "bun";
+import { createStubClient, createTestRepo, runTool, startPlugin } from "./helpers";
+import { envVarName } from "../.opencode/plugins/autocommit/settings-layers";
+
+let testDir: string | null = null;
+let configHome: string;
+const savedConfigHome = process.env.XDG_CONFIG_HOME;
+
+beforeEach(async () => {
+  // Keep the real user-global settings out of the tests
+  configHome = `/tmp/opencode-config-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await $`mkdir -p ${configHome}/opencode`.quiet();
+  process.env.XDG_CONFIG_HOME = configHome;
+});
+
+afterEach(async () => {
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith("OPENCODE_AUTOCOMMIT_")) delete process.env[key];
+  }
+  if (savedConfigHome === undefined) {
+    delete process.env.XDG_CONFIG_HOME;
+  } else {
+    process.env.XDG_CONFIG_HOME = savedConfigHome;
+  }
+  await $`rm -rf ${configHome}`.quiet();
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+test("envVarName turns a setting name into its environment variable", () => {
+  expect(envVarName("mode")).toBe("OPENCODE_AUTOCOMMIT_MODE");
+  expect(envVarName("maxCommitLength")).toBe("OPENCODE_AUTOCOMMIT_MAX_COMMIT_LENGTH");
+});
+
+test("global, repo, worktree and environment layers merge in order and report their source", async () => {
+  await Bun.write(`${configHome}/opencode/auto-commit.settings.yml`, "mode: enabled\nmaxCommitLength: 500\nsecretScan: false\n");
+  testDir = await createTestRepo("maxCommitLength: 2000\nstaging: all\n");
+  await Bun.write(`${testDir}/.git/opencode-autocommit.settings.yml`, "staging: turn\nnotify: off\n");
+  process.env.OPENCODE_AUTOCOMMIT_NOTIFY = "message";
+  process.env.OPENCODE_AUTOCOMMIT_COMMIT_MODEL_FALLBACKS = "anthropic/claude-haiku, openai/gpt-mini";
+
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+  const output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+
+  expect(output.settings).toMatchObject({
+    mode: "enabled",
+    secretScan: false,
+    maxCommitLength: 2000,
+    staging: "turn",
+    notify: "message",
+    commitModelFallbacks: ["anthropic/claude-haiku", "openai/gpt-mini"],
+    checkTimeout: 300000,
+  });
+  expect(output.sources).toMatchObject({
+    mode: "global",
+    secretScan: "global",
+    maxCommitLength: "repo",
+    staging: "worktree",
+    notify: "env",
+    commitModelFallbacks: "env",
+    checkTimeout: "default",
+  });
+  expect(output.layers.map((l: any) => [l.layer, l.found])).toEqual([
+    ["global", true],
+    ["repo", true],
+    ["worktree", true],
+    ["env", true],
+  ]);
+  expect(output.errors).toEqual([]);
+});
+
+test("invalid values are reported precisely and only those keys are ignored", async () => {
+  testDir = await createTestRepo("mode: enabeld\nmaxCommitLength: 50\ncoAuthors: [1]\nstaging: all\nbogus: 1\n");
+  process.env.OPENCODE_AUTOCOMMIT_MAX_FILE_SIZE = "big";
+  process.env.OPENCODE_AUTOCOMMIT_SECRET_SCAN = "false";
+  process.env.OPENCODE_AUTOCOMMIT_NOPE = "1";
+
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+  const output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+
+  const repoFile = `repo (${testDir}/.opencode/auto-commit.settings.yml)`;
+  expect(output.errors).toEqual([
+    `${repoFile}: mode: Invalid enum value. Expected 'disabled' | 'worktree' | 'enabled' | 'branch' | 'shadow', received 'enabeld'`,
+    `${repoFile}: maxCommitLength: Number must be greater than or equal to 100`,
+    `${repoFile}: coAuthors.0: Expected string, received number`,
+    `${repoFile}: bogus: unknown setting`,
+    "env (environment): OPENCODE_AUTOCOMMIT_NOPE: unknown setting",
+    "env (environment): OPENCODE_AUTOCOMMIT_MAX_FILE_SIZE: Expected number, received string",
+  ]);
+  expect(output.settings).toMatchObject({ mode: "disabled", maxCommitLength: 10000, staging: "all", secretScan: false });
+  expect(output.sources).toMatchObject({ mode: "default", staging: "repo", secretScan: "env" });
+
+  const logged = stub.logs.filter((l) => l.level === "error").map((l) => l.message);
+  expect(logged).toEqual(["Ignored invalid settings from file", "Ignored invalid settings from environment"]);
+});
+
+test("a file that is not valid YAML is reported and skipped", async () => {
+  testDir = await createTestRepo("mode: [enabled\n");
+  await Bun.write(`${configHome}/opencode/auto-commit.settings.yml`, "mode: worktree\n");
+
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+  const output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+
+  expect(output.settings.mode).toBe("worktree");
+  expect(output.errors).toHaveLength(1);
+  expect(output.errors[0]).toContain("invalid YAML");
+});
+
+test("values changed at runtime are marked as set until settings are reset", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await runTool(hooks, "setAutoCommitSettings", { mode: "shadow", commitModel: "anthropic/claude-haiku" });
+  let output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+  expect(output.settings).toMatchObject({ mode: "shadow", commitModel: "anthropic/claude-haiku" });
+  expect(output.sources).toMatchObject({ mode: "set", commitModel: "set" });
+
+  await runTool(hooks, "resetAutoCommitSettings");
+  output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+  expect(output.settings.mode).toBe("enabled");
+  expect(output.settings.commitModel).toBeUndefined();
+  expect(output.sources.mode).toBe("repo");
+  expect(output.sources.commitModel).toBeUndefined();
+});
+
+test("persist=true updates the repo settings file in place", async () => {
+  testDir = await createTestRepo(
+    "# Team defaults\nmode: disabled  # off until reviewed\ncommitModel: anthropic/claude-haiku\nlegacyOption: keep-me\n",
+  );
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+
+  const output = JSON.parse(
+    await runTool(hooks, "setAutoCommitSettings", { mode: "enabled", checks: ["bun test", " "], commitModel: "", persist: true }),
+  );
+  expect(output.persisted).toEqual({ scope: "repo", settingsPath: `${testDir}/.opencode/auto-commit.settings.yml` });
+  expect(output.overridden).toEqual({});
+  expect(output.settings).toMatchObject({ mode: "enabled", checks: ["bun test"] });
+  expect(output.settings.commitModel).toBeUndefined();
+
+  expect(await Bun.file(`${testDir}/.opencode/auto-commit.settings.yml`).text()).toBe(
+    "# Team defaults\nmode: enabled # off until reviewed\nlegacyOption: keep-me\nchecks:\n  - bun test\n",
+  );
+
+  const restarted = await startPlugin(testDir, createStubClient().client);
+  const reloaded = JSON.parse(await runTool(restarted, "getAutoCommitSettings"));
+  expect(reloaded.settings.mode).toBe("enabled");
+  expect(reloaded.sources.mode).toBe("repo");
+});
+
+test("scope selects the global or worktree settings file", async () => {
+  testDir = await createTestRepo("");
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await runTool(hooks, "setAutoCommitSettings", { notify: "off", scope: "global" });
+  await runTool(hooks, "setAutoCommitSettings", { staging: "all", scope: "worktree" });
+
+  expect(await Bun.file(`${configHome}/opencode/auto-commit.settings.yml`).text()).toBe("notify: off\n");
+  expect(await Bun.file(`${testDir}/.git/opencode-autocommit.settings.yml`).text()).toBe("staging: all\n");
+  const output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+  expect(output.sources).toMatchObject({ notify: "global", staging: "worktree" });
+});
+
+test("a persisted value that a higher layer overrides is reported", async () => {
+  testDir = await createTestRepo("mode: disabled\n");
+  process.env.OPENCODE_AUTOCOMMIT_MODE = "worktree";
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+
+  const output = JSON.parse(await runTool(hooks, "setAutoCommitSettings", { mode: "enabled", persist: true }));
+  expect(output.settings.mode).toBe("worktree");
+  expect(output.overridden).toEqual({ mode: "env" });
+  expect(await Bun.file(`${testDir}/.opencode/auto-commit.settings.yml`).text()).toBe("mode: enabled\n");
+});
+
+test("invalid values are rejected before anything is written", async () => {
+  testDir = await createTestRepo("mode: disabled\n");
+  const stub = createStubClient();
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await expect(
+    runTool(hooks, "setAutoCommitSettings", { mode: "enabled", maxCommitLength: 5, persist: true }),
+  ).rejects.toThrow("Failed to update settings: maxCommitLength: Number must be greater than or equal to 100");
+  await expect(runTool(hooks, "setAutoCommitSettings", { mode: "enabled", scope: "everywhere" })).rejects.toThrow(
+    "Invalid enum value",
+  );
+
+  expect(await Bun.file(`${testDir}/.opencode/auto-commit.settings.yml`).text()).toBe("mode: disabled\n");
+  const output = JSON.parse(await runTool(hooks, "getAutoCommitSettings"));
+  expect(output.settings.mode).toBe("disabled");
+});
+
+test("initAutoCommit validates every value before writing the settings file", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const hooks = await startPlugin(testDir, createStubClient().client);
+  const settingsFile = `${testDir}/.opencode/auto-commit.settings.yml`;
+
+  await expect(
+    runTool(hooks, "initAutoCommit", { cadenceTurns: 0, cadenceMinutes: -1, commitModelTimeout: 5, summaryDiffBudget: -1 }),
+  ).rejects.toThrow(
+    "Failed to initialize: cadenceTurns: Number must be greater than or equal to 1; " +
+      "cadenceMinutes: Number must be greater than 0; " +
+      "commitModelTimeout: Number must be greater than or equal to 1000; " +
+      "summaryDiffBudget: Number must be greater than or equal to 0",
+  );
+  expect(await Bun.file(settingsFile).text()).toBe("mode: enabled\n");
+
+  const written = JSON.parse(await runTool(hooks, "initAutoCommit", { cadence: "every-n-turns", cadenceTurns: 3 }));
+  expect(written).toEqual({ mode: "disabled", maxCommitLength: 10000, cadence: "every-n-turns", cadenceTurns: 3 });
+  expect(await Bun.file(settingsFile).text()).toBe("mode: disabled\nmaxCommitLength: 10000\ncadence: every-n-turns\ncadenceTurns: 3\n");
+});
@@ -0,0 +1,77 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import type { Hooks } from "@opencode-ai/plugin";
+import { createStubClient, createTestRepo, runTool, sessionIdle, startPlugin, turn, type StubClient } from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+// Two checkpointed turns; the user's own README edit sits in the index
+async function setup(): Promise<{ dir: string; stub: StubClient; hooks: Hooks }> {
+  const dir = await createTestRepo("mode: shadow\ntrailers: false\n");
+  const stub = createStubClient({ messages: turn(1, "one.txt") });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/README.md`, "# Staged by the user\n");
+  await $`cd ${dir} && git add README.md`.quiet();
+
+  await Bun.write(`${dir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  stub.setMessages([...turn(1, "one.txt"), ...turn(2, "two.txt")]);
+  await Bun.write(`${dir}/two.txt`, "2\n");
+  await sessionIdle(hooks, "ses_1");
+
+  return { dir, stub, hooks };
+}
+
+test("shadow mode checkpoints each turn on a private ref and leaves HEAD, index and working tree alone", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+
+  expect(await $`cd ${dir} && git rev-list --count HEAD`.text()).toBe("1\n");
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe("M  README.md\n?? one.txt\n?? two.txt\n");
+
+  const { ref, checkpoints } = JSON.parse(await runTool(hooks, "listCheckpoints"));
+  expect(ref).toBe("refs/opencode/autocommit/ses_1");
+  expect(checkpoints.map((c: any) => c.turnID)).toEqual(["msg_user_2", "msg_user_1"]);
+
+  const files = await $`cd ${dir} && git ls-tree --name-only ${checkpoints[0].sha}`.text();
+  expect(files.trim().split("\n").sort()).toEqual([".opencode", "README.md", "one.txt", "two.txt"]);
+});
+
+test("restoreCheckpoint rewinds the working tree and saves the current state first", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+  const { checkpoints } = JSON.parse(await runTool(hooks, "listCheckpoints"));
+
+  await Bun.write(`${dir}/one.txt`, "changed later\n");
+  const result = JSON.parse(await runTool(hooks, "restoreCheckpoint", { checkpoint: checkpoints[1].sha }));
+
+  expect(result.restored).toBe(checkpoints[1].sha);
+  expect(result.removed).toEqual(["two.txt"]);
+  expect(await Bun.file(`${dir}/one.txt`).text()).toBe("1\n");
+  expect(await Bun.file(`${dir}/two.txt`).exists()).toBe(false);
+  expect(await $`cd ${dir} && git diff --cached --name-only`.text()).toBe("README.md\n");
+
+  // The pre-restore state is the newest checkpoint, so it can be restored back
+  const after = JSON.parse(await runTool(hooks, "listCheckpoints"));
+  expect(after.checkpoints[0].sha).toBe(result.saved);
+  await runTool(hooks, "restoreCheckpoint");
+  expect(await Bun.file(`${dir}/one.txt`).text()).toBe("changed later\n");
+  expect(await Bun.file(`${dir}/two.txt`).text()).toBe("2\n");
+});
+
+test("restoreCheckpoint rejects commits that are not checkpoints of the session", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+
+  await expect(runTool(hooks, "restoreCheckpoint", { checkpoint: "HEAD" })).rejects.toThrow("is not a checkpoint of session ses_1");
+  await expect(runTool(hooks, "restoreCheckpoint", {}, "ses_other")).rejects.toThrow("has no checkpoints");
+});
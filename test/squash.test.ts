@@ -0,0 +1,73 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import type { Hooks } from "@opencode-ai/plugin";
+import { createStubClient, createTestRepo, runTool, sessionIdle, startPlugin, turn, type StubClient } from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+// Two auto-committed turns on top of the initial commit
+async function setup(): Promise<{ dir: string; stub: StubClient; hooks: Hooks }> {
+  const dir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages: turn(1, "one.txt") });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  stub.setMessages([...turn(1, "one.txt"), ...turn(2, "two.txt")]);
+  await Bun.write(`${dir}/two.txt`, "2\n");
+  await sessionIdle(hooks, "ses_1");
+
+  return { dir, stub, hooks };
+}
+
+test("squashes the session's commits into one with a combined message", async () => {
+  const { dir, stub, hooks } = await setup();
+  testDir = dir;
+  stub.prompts.length = 0;
+  await Bun.write(`${dir}/README.md`, "# Edited by the user\n");
+
+  const result = JSON.parse(await runTool(hooks, "squashAutoCommits"));
+
+  expect(result.squashed.map((c: any) => c.turnID)).toEqual(["msg_user_1", "msg_user_2"]);
+  expect(await $`cd ${dir} && git rev-list --count HEAD`.text()).toBe("2\n");
+
+  const files = await $`cd ${dir} && git show --name-only --format= HEAD`.text();
+  expect(files.trim().split("\n").sort()).toEqual(["one.txt", "two.txt"]);
+
+  const trailers = await $`cd ${dir} && git log -1 --format=${"%(trailers)"}`.text();
+  expect(trailers.trim().split("\n")).toEqual([
+    "Opencode-Session: ses_1",
+    "Opencode-Turn: msg_user_1",
+    "Opencode-Turn: msg_user_2",
+    "Opencode-Model: anthropic/claude-sonnet-4",
+  ]);
+
+  const prompt = stub.prompts[0].body.parts[0].text;
+  expect(prompt).toContain("Write one.txt");
+  expect(prompt).toContain("Write two.txt");
+
+  // The user's uncommitted edit is untouched
+  expect(await $`cd ${dir} && git status --porcelain`.text()).toBe(" M README.md\n");
+});
+
+test("refuses when a commit that is not from this session is interleaved", async () => {
+  const { dir, stub, hooks } = await setup();
+  testDir = dir;
+  await Bun.write(`${dir}/manual.txt`, "manual\n");
+  await $`cd ${dir} && git add manual.txt && git commit -m "Manual commit"`.quiet();
+
+  stub.setMessages([...turn(1, "one.txt"), ...turn(2, "two.txt"), ...turn(3, "three.txt")]);
+  await Bun.write(`${dir}/three.txt`, "3\n");
+  await sessionIdle(hooks, "ses_1");
+
+  await expect(runTool(hooks, "squashAutoCommits")).rejects.toThrow("is not an auto-commit of session ses_1");
+  expect(await $`cd ${dir} && git rev-list --count HEAD`.text()).toBe("5\n");
+});
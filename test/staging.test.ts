@@ -0,0 +1,125 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+async function committedFiles(dir: string): Promise<string[]> {
+  const output = await $`cd ${dir} && git show --name-only --format= HEAD`.text();
+  return output.trim().split("\n").filter((l) => l.length > 0).sort();
+}
+
+async function statusLines(dir: string): Promise<string[]> {
+  const output = await $`cd ${dir} && git status --porcelain --untracked-files=all`.text();
+  return output.split("\n").filter((l) => l.length > 0).sort();
+}
+
+test("stages only files touched by the turn's tool calls", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  await Bun.write(`${testDir}/old.txt`, "old\n");
+  await $`cd ${testDir} && git add old.txt && git commit -m "Add old.txt"`.quiet();
+
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", "Add a module and remove old.txt"),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Done", [
+        toolPart("write", { filePath: `${testDir}/src/module.ts`, content: "export {}\n" }),
+        toolPart("edit", { filePath: `${testDir}/README.md`, oldString: "#", newString: "##" }),
+        toolPart("apply_patch", { patchText: "*** Begin Patch\n*** Delete File: old.txt\n*** End Patch" }),
+        toolPart("read", { filePath: `${testDir}/scratch.txt` }),
+      ]),
+    ],
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/src/module.ts`, "export {}\n");
+  await Bun.write(`${testDir}/README.md`, "## Test Repository\n");
+  await $`rm ${testDir}/old.txt`.quiet();
+  // Changes the user made by hand while the agent worked
+  await Bun.write(`${testDir}/scratch.txt`, "scratch\n");
+  await Bun.write(`${testDir}/dist/bundle.js`, "built\n");
+
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await committedFiles(testDir)).toEqual(["README.md", "old.txt", "src/module.ts"]);
+  expect(await statusLines(testDir)).toEqual(["?? dist/bundle.js", "?? scratch.txt"]);
+
+  const untouched = stub.logs.find((l) => l.message === "Leaving changes made outside this turn unstaged");
+  expect(untouched?.level).toBe("warn");
+  expect(untouched?.extra?.files.sort()).toEqual(["dist/bundle.js", "scratch.txt"]);
+});
+
+test("keeps changes the user staged themselves out of the commit", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", "Create hello.txt"),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Done", [
+        toolPart("write", { filePath: "hello.txt", content: "Hello\n" }),
+      ]),
+    ],
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello\n");
+  await Bun.write(`${testDir}/mine.txt`, "mine\n");
+  await $`cd ${testDir} && git add mine.txt`.quiet();
+
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await committedFiles(testDir)).toEqual(["hello.txt"]);
+  expect(await statusLines(testDir)).toEqual(["A  mine.txt"]);
+});
+
+test("skips the commit when the turn touched no changed files", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", "Explain the code"),
+      assistantMessage("msg_assistant_1", "msg_user_1", "It is a test repository"),
+    ],
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/scratch.txt`, "scratch\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const count = await $`cd ${testDir} && git rev-list --count HEAD`.text();
+  expect(count.trim()).toBe("1");
+  expect(stub.logs.some((l) => l.message === "No changes from this turn to commit")).toBe(true);
+});
+
+test("staging: all commits every change", async () => {
+  testDir = await createTestRepo("mode: enabled\nstaging: all\n");
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", "Create hello.txt"),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Done", [
+        toolPart("write", { filePath: "hello.txt", content: "Hello\n" }),
+      ]),
+    ],
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello\n");
+  await Bun.write(`${testDir}/scratch.txt`, "scratch\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await committedFiles(testDir)).toEqual(["hello.txt", "scratch.txt"]);
+  expect(await statusLines(testDir)).toEqual([]);
+});
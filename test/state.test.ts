@@ -0,0 +1,110 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import * as fs from "node:fs";
+import { createRepoLock } from "../.opencode/plugins/autocommit/lock";
+import { createStubClient, createTestRepo, sessionIdle, startPlugin, turn } from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+test("committed turns are remembered across plugin restarts", async () => {
+  testDir = await createTestRepo("mode: enabled\nstaging: all\n");
+  const stub = createStubClient({ messages: turn("1", "one.txt") });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const head = (await $`cd ${testDir} && git rev-parse HEAD`.text()).trim();
+  const saved = JSON.parse(await Bun.file(`${testDir}/.opencode/autocommit-state/ses_1.json`).text());
+  expect(saved.turns).toEqual([{ turnID: "msg_user_1", sha: head, time: expect.any(Number) }]);
+
+  // A restarted plugin sees the same last turn again but must not commit the new file under it
+  const restarted = await startPlugin(testDir, stub.client);
+  await Bun.write(`${testDir}/unrelated.txt`, "later\n");
+  await sessionIdle(restarted, "ses_1");
+
+  expect(await $`cd ${testDir} && git rev-list --count HEAD`.text()).toBe("2\n");
+  expect(stub.logs.some((l) => l.message === "Turn already committed, skipping")).toBe(true);
+  // The state directory ignores itself
+  expect(await $`cd ${testDir} && git status --porcelain`.text()).toBe("?? unrelated.txt\n");
+});
+
+test("concurrent sessions keep separate dedupe state and commit one at a time", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient();
+  stub.setMessages(turn("a", "a.txt"), "ses_a");
+  stub.setMessages(turn("b", "b.txt"), "ses_b");
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/a.txt`, "a\n");
+  await Bun.write(`${testDir}/b.txt`, "b\n");
+  await Promise.all([sessionIdle(hooks, "ses_a"), sessionIdle(hooks, "ses_b")]);
+
+  const log = await $`cd ${testDir} && git log --format=${"%(trailers:key=Opencode-Session,valueonly)"} --name-only -2`.text();
+  expect(log.split("\n").filter((l) => l.length > 0).sort()).toEqual(["a.txt", "b.txt", "ses_a", "ses_b"]);
+  expect(stub.logs.filter((l) => l.level === "error")).toEqual([]);
+});
+
+test("the repository lock serializes callers and takes over locks left by dead processes", async () => {
+  testDir = fs.mkdtempSync("/tmp/autocommit-lock-");
+  const lockPath = `${testDir}/test.lock`;
+  fs.writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, time: Date.now() }));
+
+  const lock = createRepoLock(lockPath, 5000);
+  const events: string[] = [];
+  const job = (name: string) =>
+    lock.run(async () => {
+      events.push(`${name} start`);
+      await Bun.sleep(20);
+      events.push(`${name} end`);
+    });
+
+  await Promise.all([job("first"), job("second")]);
+
+  expect(events).toEqual(["first start", "first end", "second start", "second end"]);
+  expect(fs.existsSync(lockPath)).toBe(false);
+});
+
+test("the repository lock reads a timeout function on each run", async () => {
+  testDir = fs.mkdtempSync("/tmp/autocommit-lock-");
+  const lockPath = `${testDir}/test.lock`;
+  // Held by a live process: this one
+  fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, time: Date.now() }));
+
+  let timeoutMs = 50;
+  const lock = createRepoLock(lockPath, () => timeoutMs);
+  await expect(lock.run(async () => "ran")).rejects.toThrow("Timed out after 50ms");
+
+  timeoutMs = 5000;
+  setTimeout(() => fs.rmSync(lockPath), 200);
+  expect(await lock.run(async () => "ran")).toBe("ran");
+});
+
+test("waiting for the repository lock restarts whenever the holder refreshes it", async () => {
+  testDir = fs.mkdtempSync("/tmp/autocommit-lock-");
+  const lockPath = `${testDir}/test.lock`;
+  const holder = createRepoLock(lockPath, 300);
+  const waiter = createRepoLock(lockPath, 300);
+
+  const started = Promise.withResolvers<void>();
+  const holding = holder.run(async () => {
+    started.resolve();
+    // Longer than the waiter's timeout in total, but never that long without a refresh
+    for (let step = 0; step < 8; step++) {
+      await Bun.sleep(100);
+      holder.refresh();
+    }
+    return "held";
+  });
+  await started.promise;
+
+  expect(await waiter.run(async () => "waited")).toBe("waited");
+  expect(await holding).toBe("held");
+});
@@ -0,0 +1,88 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  runTool,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const messages = [
+  userMessage("msg_user_1", "Add a greeting file"),
+  assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt", [
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+test("auto-commits carry session, turn, model and co-author trailers", async () => {
+  testDir = await createTestRepo(
+    "mode: enabled\ncoAuthors:\n  - opencode <noreply@opencode.ai>\n",
+  );
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_abc");
+
+  const trailers = await $`cd ${testDir} && git log -1 --format=${"%(trailers)"}`.text();
+  expect(trailers.trim().split("\n")).toEqual([
+    "Opencode-Session: ses_abc",
+    "Opencode-Turn: msg_user_1",
+    "Opencode-Model: anthropic/claude-sonnet-4",
+    "Co-authored-by: opencode <noreply@opencode.ai>",
+  ]);
+
+  const parsed = JSON.parse(await runTool(hooks, "getAutoCommitTrailers"));
+  expect(parsed.sessionID).toBe("ses_abc");
+  expect(parsed.turnID).toBe("msg_user_1");
+  expect(parsed.model).toBe("anthropic/claude-sonnet-4");
+  expect(parsed.coAuthors).toEqual(["opencode <noreply@opencode.ai>"]);
+});
+
+test("trailers: false leaves the Opencode trailers out", async () => {
+  testDir = await createTestRepo("mode: enabled\ntrailers: false\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_abc");
+
+  const trailers = await $`cd ${testDir} && git log -1 --format=${"%(trailers)"}`.text();
+  expect(trailers.trim()).toBe("");
+
+  const parsed = JSON.parse(await runTool(hooks, "getAutoCommitTrailers", { commit: "HEAD" }));
+  expect(parsed.sessionID).toBeUndefined();
+});
+
+test("trailers are kept when the message is truncated", async () => {
+  testDir = await createTestRepo("mode: enabled\nmaxCommitLength: 100\n");
+  const stub = createStubClient({
+    messages: [
+      userMessage("msg_user_1", "Add a greeting file ".repeat(20)),
+      assistantMessage("msg_assistant_1", "msg_user_1", "Created hello.txt ".repeat(20), [
+        toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+      ]),
+    ],
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_abc");
+
+  const parsed = JSON.parse(await runTool(hooks, "getAutoCommitTrailers"));
+  expect(parsed.sessionID).toBe("ses_abc");
+  expect(parsed.turnID).toBe("msg_user_1");
+});
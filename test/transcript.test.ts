@@ -0,0 +1,74 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import {
+  assistantMessage,
+  createStubClient,
+  createTestRepo,
+  runTool,
+  sessionIdle,
+  startPlugin,
+  toolPart,
+  userMessage,
+} from "./helpers";
+import { NOTES_REF } from "../.opencode/plugins/autocommit/transcript";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+const longPrompt = `Add a greeting file. ${"Make it friendly. ".repeat(20)}`;
+const longResponse = `Created hello.txt. ${"It says hello. ".repeat(50)}The end.`;
+
+const messages = [
+  userMessage("msg_user_1", longPrompt),
+  assistantMessage("msg_assistant_1", "msg_user_1", longResponse, [
+    toolPart("read", { filePath: "README.md" }),
+    toolPart("write", { filePath: "hello.txt", content: "Hello World!\n" }),
+  ]),
+];
+
+test("transcript: notes keeps the message short and stores the full turn as a git note", async () => {
+  testDir = await createTestRepo("mode: enabled\ntranscript: notes\nmaxCommitLength: 300\n");
+  const stub = createStubClient({ messages, onPrompt: () => "Add greeting file" });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const body = await $`cd ${testDir} && git log -1 --format=%B`.text();
+  const [subject, , excerpt] = body.split("\n");
+  expect(subject).toBe("Add greeting file");
+  expect(excerpt).toStartWith("Prompt: Add a greeting file. Make it friendly.");
+  expect(excerpt).toEndWith("...");
+  expect(excerpt!.length).toBe("Prompt: ".length + 200);
+  expect(body).not.toContain("It says hello.");
+
+  const note = await $`cd ${testDir} && git notes --ref=${NOTES_REF} show HEAD`.text();
+  expect(note).toContain(`## Turn msg_user_1 (anthropic/claude-sonnet-4)`);
+  expect(note).toContain(`### User\n${longPrompt.trim()}\n`);
+  expect(note).toContain(longResponse);
+  expect(note).toContain("- read (completed): README.md\n\n- write (completed): hello.txt");
+
+  expect(await runTool(hooks, "getAutoCommitTranscript")).toBe(note);
+});
+
+test("getAutoCommitTranscript reports commits without a transcript", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/hello.txt`, "Hello World!\n");
+  await sessionIdle(hooks, "ses_1");
+
+  // The default keeps the whole turn in the message and writes no note
+  expect(await $`cd ${testDir} && git log -1 --format=%B`.text()).toContain("The end.");
+  await expect(runTool(hooks, "getAutoCommitTranscript", { commit: "HEAD" })).rejects.toThrow("no transcript stored for");
+  await expect(runTool(hooks, "getAutoCommitTranscript", { commit: "no-such-rev" })).rejects.toThrow(
+    "no-such-rev is not a commit",
+  );
+});
@@ -0,0 +1,66 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import { createStubClient, createTestRepo, sessionIdle, startPlugin, turn, turnStarted } from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+async function commitLog(dir: string): Promise<string[]> {
+  const log = await $`cd ${dir} && git log --reverse --format=${"%(trailers:key=Opencode-Turn,valueonly,separator=%x2C)"} --name-only HEAD~..HEAD`.text();
+  return log.split("\n").filter((l) => l.length > 0);
+}
+
+test("queued turns with separate files get one commit each, in order", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages: [...turn(1, "one.txt"), ...turn(2, "two.txt")] });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await turnStarted(hooks, "ses_1", "msg_user_2");
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await Bun.write(`${testDir}/two.txt`, "2\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const log = await $`cd ${testDir} && git log --reverse --format=${"%(trailers:key=Opencode-Turn,valueonly)"} --name-only -2`.text();
+  expect(log.split("\n").filter((l) => l.length > 0)).toEqual(["msg_user_1", "one.txt", "msg_user_2", "two.txt"]);
+  expect(stub.prompts).toHaveLength(2);
+});
+
+test("turns that changed the same file are committed together", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages: [...turn(1, "shared.txt"), ...turn(2, "shared.txt")] });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await turnStarted(hooks, "ses_1", "msg_user_1");
+  await Bun.write(`${testDir}/shared.txt`, "1\n2\n");
+  await sessionIdle(hooks, "ses_1");
+
+  expect(await commitLog(testDir)).toEqual(["msg_user_1,msg_user_2", "shared.txt"]);
+  expect(stub.prompts).toHaveLength(1);
+  const prompt = stub.prompts[0].body.parts[0].text;
+  expect(prompt).toContain("### Turn 1\nWrite shared.txt");
+  expect(prompt).toContain("### Turn 2\nWrite shared.txt");
+});
+
+test("turns after the last recorded one are committed even without a baseline", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages: turn(1, "one.txt") });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  stub.setMessages([...turn(1, "one.txt"), ...turn(2, "two.txt"), ...turn(3, "three.txt")]);
+  await Bun.write(`${testDir}/two.txt`, "2\n");
+  await Bun.write(`${testDir}/three.txt`, "3\n");
+  await sessionIdle(hooks, "ses_1");
+
+  const turns = await $`cd ${testDir} && git log --format=${"%(trailers:key=Opencode-Turn,valueonly)"}`.text();
+  expect(turns.split("\n").filter((l) => l.length > 0)).toEqual(["msg_user_3", "msg_user_2", "msg_user_1"]);
+});
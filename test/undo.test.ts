@@ -0,0 +1,117 @@
+import { test, expect, afterEach } from "bun:test";
+import { $ } from "bun";
+import type { Hooks } from "@opencode-ai/plugin";
+import { createStubClient, createTestRepo, runTool, sessionIdle, startPlugin, turn, type StubClient } from "./helpers";
+
+let testDir: string | null = null;
+
+afterEach(async () => {
+  if (testDir) {
+    await $`rm -rf ${testDir}`.quiet();
+    testDir = null;
+  }
+});
+
+// Two auto-committed turns on top of the initial commit
+async function setup(): Promise<{ dir: string; stub: StubClient; hooks: Hooks }> {
+  const dir = await createTestRepo("mode: enabled\n");
+  const stub = createStubClient({ messages: turn(1, "one.txt") });
+  const hooks = await startPlugin(dir, stub.client);
+
+  await Bun.write(`${dir}/one.txt`, "1\n");
+  await sessionIdle(hooks, "ses_1");
+
+  stub.setMessages([...turn(1, "one.txt"), ...turn(2, "two.txt")]);
+  await Bun.write(`${dir}/two.txt`, "2\n");
+  await sessionIdle(hooks, "ses_1");
+
+  return { dir, stub, hooks };
+}
+
+async function commitCount(dir: string): Promise<number> {
+  return parseInt(await $`cd ${dir} && git rev-list --count HEAD`.text());
+}
+
+test("reset drops the session's commits and keeps uncommitted user changes", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+  await Bun.write(`${dir}/README.md`, "# Edited by the user\n");
+
+  const result = JSON.parse(await runTool(hooks, "undoAutoCommit", { count: 2 }));
+
+  expect(result.mode).toBe("reset");
+  expect(result.undone.map((c: any) => c.turnID)).toEqual(["msg_user_2", "msg_user_1"]);
+  expect(await commitCount(dir)).toBe(1);
+  expect(await Bun.file(`${dir}/one.txt`).exists()).toBe(false);
+  expect(await Bun.file(`${dir}/two.txt`).exists()).toBe(false);
+  expect(await Bun.file(`${dir}/README.md`).text()).toBe("# Edited by the user\n");
+});
+
+test("soft keeps the undone changes staged", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+
+  await runTool(hooks, "undoAutoCommit", { mode: "soft" });
+
+  expect(await commitCount(dir)).toBe(2);
+  const status = await $`cd ${dir} && git status --porcelain`.text();
+  expect(status.trim()).toBe("A  two.txt");
+});
+
+test("revert adds a revert commit", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+
+  await runTool(hooks, "undoAutoCommit", { mode: "revert" });
+
+  expect(await commitCount(dir)).toBe(4);
+  expect(await Bun.file(`${dir}/two.txt`).exists()).toBe(false);
+  expect(await Bun.file(`${dir}/one.txt`).exists()).toBe(true);
+});
+
+test("refuses when a commit that is not from this session is in the way", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+  await Bun.write(`${dir}/manual.txt`, "manual\n");
+  await $`cd ${dir} && git add manual.txt && git commit -m "Manual commit"`.quiet();
+
+  await expect(runTool(hooks, "undoAutoCommit")).rejects.toThrow("is not an auto-commit of session ses_1");
+  await expect(runTool(hooks, "undoAutoCommit", {}, "ses_other")).rejects.toThrow("is not an auto-commit");
+  expect(await commitCount(dir)).toBe(4);
+});
+
+test("refuses to undo commits that were pushed", async () => {
+  const { dir, hooks } = await setup();
+  testDir = dir;
+  await $`git init --bare ${dir}/.remote.git`.quiet();
+  await $`cd ${dir} && git remote add origin ${dir}/.remote.git && git push -q origin HEAD:main`.quiet();
+
+  await expect(runTool(hooks, "undoAutoCommit")).rejects.toThrow("has already been pushed");
+  expect(await commitCount(dir)).toBe(3);
+});
+
+test("waits for a commit in progress instead of undoing the one before it", async () => {
+  testDir = await createTestRepo("mode: enabled\n");
+  let releaseSummary = () => {};
+  const summaryStarted = Promise.withResolvers<void>();
+  const stub = createStubClient({
+    messages: turn(1, "one.txt"),
+    onPrompt: () => {
+      summaryStarted.resolve();
+      return new Promise((resolve) => (releaseSummary = () => resolve("Write one.txt")));
+    },
+  });
+  const hooks = await startPlugin(testDir, stub.client);
+
+  await Bun.write(`${testDir}/one.txt`, "1\n");
+  const committing = sessionIdle(hooks, "ses_1");
+  await summaryStarted.promise;
+
+  const undoing = runTool(hooks, "undoAutoCommit");
+  releaseSummary();
+  await committing;
+  const result = JSON.parse(await undoing);
+
+  expect(result.undone.map((c: any) => c.turnID)).toEqual(["msg_user_1"]);
+  expect(await commitCount(testDir)).toBe(1);
+});